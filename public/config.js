@@ -31,9 +31,61 @@ window.__ENV__ = {
   /** API 기본 URL */
   API_BASE_URL: process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3001',
 
+  /**
+   * 그 외 서비스(백엔드)별 설정 (src/lib/api/services.ts)
+   *
+   * - 서비스 이름은 src/lib/types.ts의 ApiServiceName
+   * - 설정하지 않은 서비스는 API_BASE_URL로 요청 (개발/Mock용)
+   */
+  API_SERVICES: {
+    reporting: { baseURL: process.env.NEXT_PUBLIC_REPORTING_API_URL || 'http://localhost:3002', timeout: 120000 },
+    files: { baseURL: process.env.NEXT_PUBLIC_FILES_API_URL || 'http://localhost:3003', timeout: 300000 },
+  },
+
   /** SSO 로그인 페이지 URL */
   SSO_LOGIN_URL: process.env.NEXT_PUBLIC_SSO_LOGIN_URL || 'https://sso.cowexa.com/login',
 
   /** 환경 이름 (development, staging, production) */
   ENV: process.env.NODE_ENV || 'development',
+
+  /**
+   * 백엔드 대신 Mock 응답 사용 (src/lib/api/mock-transport.ts)
+   *
+   * - true: entities의 mocks.ts에 등록된 응답 사용 (백엔드 없이 개발/데모)
+   * - 기본값은 false, 로컬 개발에서만 .env.local의 NEXT_PUBLIC_API_MOCK=true로 사용
+   * - 배포 시에는 반드시 false (배포용 config.js에서 생략해도 false)
+   */
+  API_MOCK: process.env.NEXT_PUBLIC_API_MOCK === 'true',
+
+  /** Mock 응답 지연 시간 (밀리초) */
+  API_MOCK_LATENCY: 300,
+
+  /** Mock 무작위 에러 비율 (0 ~ 1, 재시도/에러 UI 확인용) */
+  API_MOCK_ERROR_RATE: 0,
+
+  /**
+   * 동시 요청/속도 제한 (src/lib/api/scheduler.ts)
+   *
+   * - 백엔드 rate limiter 설정에 맞춰 조정 (0: 제한 없음)
+   * - 생략하면 API_CONFIG 기본값 사용
+   */
+  API_MAX_CONCURRENT: 6,
+  API_RATE_LIMIT: 20,
+  API_RATE_LIMIT_BURST: 20,
+
+  /**
+   * 같은 틱에 발생한 조회(GET)를 POST /batch 한 번으로 자동 묶음 (src/lib/api/batch.ts)
+   *
+   * - 백엔드에 batch API가 있는 환경에서만 true
+   * - apiClient.batch()로 명시적으로 묶는 요청은 이 값과 관계없이 묶임
+   */
+  API_BATCH: false,
+
+  /**
+   * WebSocket 접속 URL (src/lib/socket-client.ts)
+   *
+   * - 설비 상태 등 실시간 값 수신용 (ws://, wss:// 또는 '/ws'처럼 현재 페이지 기준 경로)
+   * - 비워 두면 연결하지 않음 (Mock 개발 환경 기본값)
+   */
+  WS_URL: process.env.NEXT_PUBLIC_WS_URL || '',
 };
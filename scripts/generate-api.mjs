@@ -0,0 +1,703 @@
+#!/usr/bin/env node
+/**
+ * OpenAPI 3 → entities 코드 생성기
+ *
+ * 왜 필요한가?
+ * - src/entities/[name]/api.ts, types.ts를 백엔드 문서를 보며 직접 작성하면 필드/URL이 조금씩 어긋남
+ * - OpenAPI 문서에서 생성하면 백엔드 변경을 다시 생성하는 것만으로 반영하고, 어긋난 곳은 tsc가 알려줌
+ *
+ * 생성 결과 (OpenAPI tag 하나당 엔티티 폴더 하나):
+ * - types.ts: 사용하는 components.schemas + 요청 파라미터/본문 타입
+ * - api.ts: defineApi로 만든 API 명세 객체 (entities/auth/api.ts의 authApi와 같은 형태)
+ * - index.ts: barrel (api, types, extensions)
+ * - extensions.ts: 직접 작성하는 파일 - 없을 때 한 번만 만들고 이후에는 건드리지 않음
+ *
+ * 다시 생성해도 안전한가?
+ * - 같은 문서면 항상 같은 내용 (시각 등 변하는 값을 쓰지 않음, 내용이 같으면 파일을 쓰지 않음)
+ * - 생성 표시(@generated)가 없는 파일은 덮어쓰지 않음 (직접 작성한 entities/auth 등 보호)
+ *
+ * 사용법:
+ *   pnpm generate:api <openapi.json> [--out src/entities] [--service reporting] [--check] [--force]
+ *
+ *   --out      엔티티 폴더를 만들 위치 (기본값: src/entities)
+ *   --service  명세에 지정할 서비스 이름 (src/lib/types.ts의 ApiServiceName, 기본값: 없음 → 'core')
+ *   --check    파일을 쓰지 않고 다시 생성이 필요한지만 확인 (변경이 있으면 exit 1 - CI용)
+ *   --force    생성 표시가 없는 파일도 덮어씀
+ *
+ * YAML 문서는 JSON으로 변환 후 사용 (추가 의존성 없이 실행하기 위해 JSON만 지원)
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+
+/**
+ * 생성 파일 표시 (이 문자열이 있는 파일만 덮어씀)
+ */
+const GENERATED_MARKER = '@generated by scripts/generate-api.mjs';
+
+/**
+ * 생성기가 덮어쓰는 파일
+ */
+const GENERATED_FILES = ['types.ts', 'api.ts', 'index.ts'];
+
+/**
+ * 직접 작성하는 확장 파일 이름
+ */
+const EXTENSION_FILE = 'extensions.ts';
+
+/**
+ * 생성 대상 HTTP 메서드 (src/lib/types.ts의 HttpMethod)
+ */
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+/**
+ * 태그가 없는 operation의 엔티티 이름
+ */
+const DEFAULT_TAG = 'default';
+
+// ==================== 이름 변환 ====================
+
+/**
+ * 단어 분리 ('work-order', 'WorkOrder', 'work_order' → ['work', 'order'])
+ */
+const toWords = (value) => {
+  return String(value)
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word.toLowerCase());
+};
+
+const toPascalCase = (value) => {
+  return toWords(value)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join('');
+};
+
+const toCamelCase = (value) => {
+  const pascal = toPascalCase(value);
+  return pascal ? pascal[0].toLowerCase() + pascal.slice(1) : '';
+};
+
+const toKebabCase = (value) => {
+  return toWords(value).join('-');
+};
+
+/**
+ * 타입 이름 (숫자로 시작하면 식별자가 될 수 없으므로 접두사 추가)
+ */
+const toTypeName = (value) => {
+  const name = toPascalCase(value) || 'Unnamed';
+  return /^[0-9]/.test(name) ? `T${name}` : name;
+};
+
+/**
+ * 작은따옴표 문자열 리터럴 (저장소 코드 스타일)
+ */
+const quote = (value) => {
+  return `'${String(value).replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+};
+
+/**
+ * 객체 속성 키 (식별자가 아니면 따옴표)
+ */
+const toPropertyKey = (key) => {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? key : quote(key);
+};
+
+/**
+ * 한 줄 JSDoc (설명이 없으면 빈 문자열)
+ */
+const toDocLine = (text, indent) => {
+  const line = String(text ?? '')
+    .replace(/\s+/g, ' ')
+    .replace(/\*\//g, '*\\/')
+    .trim();
+  return line ? `${indent}/** ${line} */\n` : '';
+};
+
+// ==================== OpenAPI 해석 ====================
+
+/**
+ * 문서 내부 $ref 해석 ('#/components/parameters/PageParam' 등)
+ */
+const resolveRef = (doc, value) => {
+  let current = value;
+  const seen = new Set();
+
+  while (current?.$ref && !seen.has(current.$ref)) {
+    seen.add(current.$ref);
+    current = current.$ref
+      .replace(/^#\//, '')
+      .split('/')
+      .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+      .reduce((node, segment) => node?.[segment], doc);
+  }
+
+  return current;
+};
+
+/**
+ * '#/components/schemas/WorkOrder' → 'WorkOrder'
+ */
+const getSchemaKey = (ref) => {
+  const match = /^#\/components\/schemas\/(.+)$/.exec(ref);
+  return match ? match[1].replace(/~1/g, '/').replace(/~0/g, '~') : null;
+};
+
+/**
+ * JSON 본문 스키마 찾기 (application/json, application/problem+json 등)
+ */
+const getJsonSchema = (content) => {
+  if (!content) {
+    return undefined;
+  }
+
+  const key = Object.keys(content).find((type) => /json/i.test(type));
+  return key ? (content[key].schema ?? {}) : undefined;
+};
+
+/**
+ * 타입 변환 컨텍스트
+ *
+ * - refs: 사용한 components.schemas 키 (types.ts에 함께 생성)
+ */
+const createContext = () => ({ refs: new Set() });
+
+/**
+ * 배열 요소/교차 타입 안에 넣을 때 괄호로 감싸기
+ */
+const wrapComposite = (type) => {
+  return / \| | & /.test(type) && !type.startsWith('{') ? `(${type})` : type;
+};
+
+/**
+ * OpenAPI 3.0 nullable / 3.1 type: ['string', 'null'] 모두 지원
+ */
+const isNullable = (schema) => {
+  return schema.nullable === true || (Array.isArray(schema.type) && schema.type.includes('null'));
+};
+
+const getPrimaryType = (schema) => {
+  if (Array.isArray(schema.type)) {
+    return schema.type.find((type) => type !== 'null');
+  }
+  if (!schema.type && (schema.properties || schema.additionalProperties)) {
+    return 'object';
+  }
+  return schema.type;
+};
+
+/**
+ * 스키마 → TypeScript 타입 표현식
+ */
+const schemaToType = (schema, context, indent = '') => {
+  if (!schema || typeof schema !== 'object') {
+    return 'unknown';
+  }
+
+  if (schema.$ref) {
+    const key = getSchemaKey(schema.$ref);
+    if (!key) {
+      return 'unknown';
+    }
+    context.refs.add(key);
+    return toTypeName(key);
+  }
+
+  let type;
+  if (schema.const !== undefined) {
+    type = typeof schema.const === 'string' ? quote(schema.const) : JSON.stringify(schema.const);
+  } else if (Array.isArray(schema.enum)) {
+    type = schema.enum
+      .filter((value) => value !== null)
+      .map((value) => (typeof value === 'string' ? quote(value) : JSON.stringify(value)))
+      .join(' | ');
+  } else if (schema.oneOf || schema.anyOf) {
+    type = [...new Set((schema.oneOf ?? schema.anyOf).map((item) => schemaToType(item, context, indent)))].join(' | ');
+  } else if (schema.allOf) {
+    type = schema.allOf.map((item) => wrapComposite(schemaToType(item, context, indent))).join(' & ');
+  } else {
+    switch (getPrimaryType(schema)) {
+      case 'string':
+        type = schema.format === 'binary' ? 'Blob' : 'string';
+        break;
+      case 'integer':
+      case 'number':
+        type = 'number';
+        break;
+      case 'boolean':
+        type = 'boolean';
+        break;
+      case 'array':
+        type = `${wrapComposite(schemaToType(schema.items, context, indent))}[]`;
+        break;
+      case 'object':
+        type = objectToType(schema, context, indent);
+        break;
+      default:
+        type = 'unknown';
+    }
+  }
+
+  return isNullable(schema) && type !== 'unknown' ? `${type} | null` : type || 'unknown';
+};
+
+/**
+ * object 스키마 → 객체 타입 리터럴
+ */
+const objectToType = (schema, context, indent) => {
+  const required = new Set(schema.required ?? []);
+  const innerIndent = `${indent}  `;
+
+  const lines = Object.entries(schema.properties ?? {}).map(([key, property]) => {
+    const optional = required.has(key) ? '' : '?';
+    const doc = toDocLine(property?.description ?? property?.title, innerIndent);
+    return `${doc}${innerIndent}${toPropertyKey(key)}${optional}: ${schemaToType(property, context, innerIndent)};`;
+  });
+
+  if (schema.additionalProperties) {
+    const valueType =
+      schema.additionalProperties === true ? 'unknown' : schemaToType(schema.additionalProperties, context, innerIndent);
+    lines.push(`${innerIndent}[key: string]: ${valueType};`);
+  }
+
+  return lines.length > 0 ? `{\n${lines.join('\n')}\n${indent}}` : 'Record<string, unknown>';
+};
+
+/**
+ * 이름 있는 타입 선언 (객체면 interface, 그 외는 type)
+ */
+const declareType = (name, schema, context, description) => {
+  const type = schemaToType(schema, context);
+  const doc = toDocLine(description, '');
+
+  return type.startsWith('{') && type.endsWith('}')
+    ? `${doc}export interface ${name} ${type}`
+    : `${doc}export type ${name} = ${type};`;
+};
+
+// ==================== operation → 명세 ====================
+
+/**
+ * operation 이름 (operationId가 없으면 메서드 + 경로로 생성)
+ *
+ * @example
+ * // GET /work-orders/{id}/history → getWorkOrdersByIdHistory
+ */
+const getOperationName = (operation, method, rawPath) => {
+  if (operation.operationId) {
+    return toCamelCase(operation.operationId);
+  }
+
+  const segments = rawPath
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => {
+      const param = /^\{(.+)\}$/.exec(segment);
+      return param ? `By ${param[1]}` : segment;
+    });
+  return toCamelCase(`${method} ${segments.join(' ')}`);
+};
+
+/**
+ * '/orders/{order-id}' → '/orders/:orderId' (defineApi 경로 파라미터 형식)
+ */
+const toUrlTemplate = (rawPath) => {
+  return rawPath.replace(/\{([^}]+)\}/g, (_match, name) => `:${toCamelCase(name) || name}`);
+};
+
+/**
+ * 응답 데이터 타입 (첫 번째 2xx 응답의 JSON 본문)
+ */
+const getResponseType = (doc, operation, name, context, declarations) => {
+  const status = Object.keys(operation.responses ?? {})
+    .filter((code) => /^2/.test(code))
+    .sort()[0];
+  const response = resolveRef(doc, operation.responses?.[status]);
+  const schema = getJsonSchema(response?.content);
+
+  if (!schema) {
+    return 'void';
+  }
+  if (getPrimaryType(schema) === 'object' && !schema.$ref) {
+    const typeName = `${toTypeName(name)}Response`;
+    declarations.push(declareType(typeName, schema, context, `${name} 응답`));
+    return typeName;
+  }
+  return schemaToType(schema, context);
+};
+
+/**
+ * 요청 데이터 타입 (GET/DELETE: query 파라미터, 그 외: JSON/multipart 본문)
+ */
+const getDataType = (doc, method, operation, parameters, name, context, declarations) => {
+  if (method === 'get' || method === 'delete') {
+    const query = parameters.filter((param) => param.in === 'query');
+    if (query.length === 0) {
+      return 'void';
+    }
+
+    const typeName = `${toTypeName(name)}Params`;
+    const schema = {
+      type: 'object',
+      required: query.filter((param) => param.required).map((param) => param.name),
+      properties: Object.fromEntries(
+        query.map((param) => [param.name, { ...param.schema, description: param.description ?? param.schema?.description }])
+      ),
+    };
+    declarations.push(declareType(typeName, schema, context, `${name} 조회 조건 (Query String)`));
+    return typeName;
+  }
+
+  const requestBody = resolveRef(doc, operation.requestBody);
+  if (!requestBody?.content) {
+    return 'void';
+  }
+
+  const schema = getJsonSchema(requestBody.content);
+  if (!schema) {
+    // multipart 등 JSON이 아닌 본문은 apiClient.upload()로 보내므로 FormData
+    return 'FormData';
+  }
+  if (getPrimaryType(schema) === 'object' && !schema.$ref) {
+    const typeName = `${toTypeName(name)}Body`;
+    declarations.push(declareType(typeName, schema, context, requestBody.description ?? `${name} 요청 본문`));
+    return typeName;
+  }
+  return schemaToType(schema, context);
+};
+
+/**
+ * 경로/operation 파라미터 병합 (같은 이름 + 위치는 operation 우선)
+ */
+const mergeParameters = (doc, pathItem, operation) => {
+  const merged = new Map();
+  [...(pathItem.parameters ?? []), ...(operation.parameters ?? [])].forEach((value) => {
+    const param = resolveRef(doc, value);
+    if (param?.name) {
+      merged.set(`${param.in}:${param.name}`, param);
+    }
+  });
+  return [...merged.values()];
+};
+
+/**
+ * 문서의 operation을 tag별로 분류
+ *
+ * @returns Map<tag, { description, operations: { name, method, url, responseType, dataType, summary, deprecated }[], declarations, context }>
+ */
+const collectEntities = (doc) => {
+  const entities = new Map();
+  const tagDescriptions = new Map((doc.tags ?? []).map((tag) => [tag.name, tag.description]));
+
+  Object.entries(doc.paths ?? {}).forEach(([rawPath, rawPathItem]) => {
+    const pathItem = resolveRef(doc, rawPathItem) ?? {};
+
+    HTTP_METHODS.forEach((method) => {
+      const operation = pathItem[method];
+      if (!operation) {
+        return;
+      }
+
+      const tag = operation.tags?.[0] ?? DEFAULT_TAG;
+      if (!entities.has(tag)) {
+        entities.set(tag, {
+          description: tagDescriptions.get(tag),
+          operations: [],
+          declarations: [],
+          context: createContext(),
+          names: new Set(),
+        });
+      }
+      const entity = entities.get(tag);
+
+      // 같은 tag 안에서 이름이 겹치면 번호 추가
+      const baseName = getOperationName(operation, method, rawPath) || method;
+      let name = baseName;
+      for (let index = 2; entity.names.has(name); index++) {
+        name = `${baseName}${index}`;
+      }
+      entity.names.add(name);
+
+      const parameters = mergeParameters(doc, pathItem, operation);
+      const { context, declarations } = entity;
+
+      entity.operations.push({
+        name,
+        method: method.toUpperCase(),
+        url: toUrlTemplate(rawPath),
+        responseType: getResponseType(doc, operation, name, context, declarations),
+        dataType: getDataType(doc, method, operation, parameters, name, context, declarations),
+        summary: operation.summary ?? operation.description,
+        deprecated: operation.deprecated === true,
+      });
+    });
+  });
+
+  return entities;
+};
+
+// ==================== 파일 내용 ====================
+
+/**
+ * types.ts 내용
+ *
+ * 사용한 components.schemas를 참조를 따라가며 모두 포함 (이름순)
+ */
+const renderTypes = (doc, tag, entity) => {
+  const { context, declarations } = entity;
+  const schemas = doc.components?.schemas ?? {};
+  const emitted = new Map();
+
+  // 스키마가 다른 스키마를 참조하면 refs가 늘어나므로 더 이상 늘지 않을 때까지 반복
+  for (let pending = [...context.refs]; pending.length > 0; pending = [...context.refs].filter((key) => !emitted.has(key))) {
+    pending.forEach((key) => {
+      const schema = schemas[key];
+      emitted.set(
+        key,
+        schema
+          ? declareType(toTypeName(key), schema, context, schema.description ?? schema.title)
+          : `export type ${toTypeName(key)} = unknown;`
+      );
+    });
+  }
+
+  const schemaDeclarations = [...emitted.keys()].sort().map((key) => emitted.get(key));
+  const body = [...schemaDeclarations, ...declarations];
+
+  return [
+    '/**',
+    ` * ${tag} 타입 정의`,
+    ' *',
+    ` * ${GENERATED_MARKER} - 직접 수정하지 마세요 (다시 생성하면 덮어씀)`,
+    ` * 원본: ${doc.info?.title ?? 'OpenAPI'} ${doc.info?.version ?? ''}`.trimEnd(),
+    ' * 화면 전용 타입은 extensions.ts에 작성',
+    ' */',
+    '',
+    body.length > 0 ? body.join('\n\n') : 'export {};',
+    '',
+  ].join('\n');
+};
+
+/**
+ * api.ts 내용 (authApi와 같은 형태)
+ */
+const renderApi = (doc, tag, entity, apiName, service) => {
+  const typeNames = new Set();
+  entity.operations.forEach(({ responseType, dataType }) => {
+    // 문자열 리터럴('OPEN' 등)을 제외하고 타입 이름만 수집
+    `${responseType} ${dataType}`
+      .replace(/'(?:\\.|[^'\\])*'/g, '')
+      .match(/\b[A-Z][A-Za-z0-9_]*\b/g)?.forEach((name) => typeNames.add(name));
+  });
+
+  // 내장 타입은 import 대상에서 제외
+  ['Blob', 'FormData', 'Record'].forEach((name) => typeNames.delete(name));
+
+  const specs = entity.operations.map(({ name, method, url, responseType, dataType, summary, deprecated }) => {
+    const generics = dataType === 'void' ? responseType : `${responseType}, ${dataType}`;
+    const docLines = [summary && `   * ${String(summary).replace(/\s+/g, ' ').trim()}`, deprecated && '   * @deprecated'].filter(
+      Boolean
+    );
+    const doc = docLines.length > 0 ? `  /**\n${docLines.join('\n   *\n')}\n   */\n` : '';
+
+    return [
+      `${doc}  ${toPropertyKey(name)}: defineApi<${generics}>()({`,
+      `    method: ${quote(method)},`,
+      `    url: ${quote(url)},`,
+      ...(service ? [`    service: ${quote(service)},`] : []),
+      '  }),',
+    ].join('\n');
+  });
+
+  return [
+    '/**',
+    ` * ${tag} API 명세`,
+    ...(entity.description ? [' *', ` * ${String(entity.description).replace(/\s+/g, ' ').trim()}`] : []),
+    ' *',
+    ` * ${GENERATED_MARKER} - 직접 수정하지 마세요 (다시 생성하면 덮어씀)`,
+    ` * 원본: ${doc.info?.title ?? 'OpenAPI'} ${doc.info?.version ?? ''}`.trimEnd(),
+    ' * Store용 호출 함수, cache/invalidates를 더한 명세는 extensions.ts에 작성',
+    ' */',
+    '',
+    "import { defineApi } from '@/lib/api/define-api';",
+    ...(typeNames.size > 0 ? [`import type { ${[...typeNames].sort().join(', ')} } from './types';`] : []),
+    '',
+    `export const ${apiName} = {`,
+    specs.join('\n\n'),
+    '} as const;',
+    '',
+  ].join('\n');
+};
+
+/**
+ * index.ts 내용
+ */
+const renderIndex = (tag) => {
+  return [
+    '/**',
+    ` * ${tag} 엔티티 Export`,
+    ' *',
+    ` * ${GENERATED_MARKER} - 직접 수정하지 마세요 (다시 생성하면 덮어씀)`,
+    ' */',
+    '',
+    '// API',
+    "export * from './api';",
+    '',
+    '// Types',
+    "export * from './types';",
+    '',
+    '// Extensions (직접 작성)',
+    "export * from './extensions';",
+    '',
+  ].join('\n');
+};
+
+/**
+ * extensions.ts 초기 내용 (처음 한 번만 생성)
+ */
+const renderExtensions = (tag, apiName) => {
+  return [
+    '/**',
+    ` * ${tag} 엔티티 확장 (직접 작성)`,
+    ' *',
+    ' * 왜 별도 파일인가?',
+    ' * - api.ts, types.ts, index.ts는 OpenAPI 문서에서 다시 생성할 때 덮어씀',
+    ' * - 이 파일은 생성기가 처음 한 번만 만들고 이후에는 수정하지 않음',
+    ' *',
+    ' * 예시:',
+    ' * ```ts',
+    " * import { apiClient } from '@/lib/api-client';",
+    ` * import { ${apiName} } from './api';`,
+    ' *',
+    ` * export const listSomething = async () => apiClient.fetch(${apiName}.listSomething());`,
+    ' * ```',
+    ' */',
+    '',
+    'export {};',
+    '',
+  ].join('\n');
+};
+
+// ==================== 실행 ====================
+
+/**
+ * 명령행 인자 해석
+ */
+const parseArgs = (argv) => {
+  const options = { input: null, out: 'src/entities', service: null, check: false, force: false };
+
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    if (arg === '--out') {
+      options.out = argv[++index];
+    } else if (arg === '--service') {
+      options.service = argv[++index];
+    } else if (arg === '--check') {
+      options.check = true;
+    } else if (arg === '--force') {
+      options.force = true;
+    } else if (!options.input) {
+      options.input = arg;
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  if (!options.input) {
+    throw new Error('Usage: generate-api <openapi.json> [--out src/entities] [--service name] [--check] [--force]');
+  }
+  return options;
+};
+
+/**
+ * 직접 작성한 파일인지 확인 (생성 표시가 없는 기존 파일)
+ */
+const isHandWritten = (file) => {
+  return existsSync(file) && !readFileSync(file, 'utf8').includes(GENERATED_MARKER);
+};
+
+/**
+ * 파일 쓰기 (내용이 같으면 쓰지 않음)
+ *
+ * @returns 'created' | 'updated' | 'unchanged'
+ */
+const writeIfChanged = (file, content, { check }) => {
+  if (!existsSync(file)) {
+    if (!check) writeFileSync(file, content);
+    return 'created';
+  }
+
+  if (readFileSync(file, 'utf8') === content) {
+    return 'unchanged';
+  }
+
+  if (!check) writeFileSync(file, content);
+  return 'updated';
+};
+
+const main = () => {
+  const options = parseArgs(process.argv.slice(2));
+  const doc = JSON.parse(readFileSync(options.input, 'utf8'));
+
+  if (!/^3\./.test(String(doc.openapi ?? ''))) {
+    throw new Error(`${options.input} is not an OpenAPI 3 document (openapi: ${doc.openapi ?? 'missing'})`);
+  }
+
+  const results = [];
+  collectEntities(doc).forEach((entity, tag) => {
+    const folder = path.join(options.out, toKebabCase(tag) || DEFAULT_TAG);
+    const apiName = `${toCamelCase(tag) || DEFAULT_TAG}Api`;
+
+    // 직접 작성한 엔티티 폴더(entities/auth 등)는 폴더 전체를 건너뜀 (일부만 덮어쓰면 import가 깨짐)
+    const handWritten = GENERATED_FILES.map((name) => path.join(folder, name)).filter(isHandWritten);
+    if (handWritten.length > 0 && !options.force) {
+      handWritten.forEach((file) => results.push([file, 'skipped']));
+      return;
+    }
+
+    if (!options.check) {
+      mkdirSync(folder, { recursive: true });
+    }
+
+    // types.ts를 먼저 렌더링해야 api.ts가 참조하는 응답/파라미터 타입 선언이 모두 모임
+    const contents = {
+      'types.ts': renderTypes(doc, tag, entity),
+      'api.ts': renderApi(doc, tag, entity, apiName, options.service),
+      'index.ts': renderIndex(tag),
+    };
+
+    GENERATED_FILES.forEach((name) => {
+      const file = path.join(folder, name);
+      results.push([file, writeIfChanged(file, contents[name], options)]);
+    });
+
+    // 확장 파일은 없을 때만 생성 (직접 작성한 내용 보존)
+    const extensionFile = path.join(folder, EXTENSION_FILE);
+    if (!existsSync(extensionFile)) {
+      if (!options.check) writeFileSync(extensionFile, renderExtensions(tag, apiName));
+      results.push([extensionFile, 'created']);
+    }
+  });
+
+  results.forEach(([file, status]) => console.log(`${status.padEnd(9)} ${file}`));
+
+  const skipped = results.filter(([, status]) => status === 'skipped');
+  if (skipped.length > 0) {
+    console.warn(`\nSkipped entity folders with hand-written files. Use --force to replace them.`);
+  }
+
+  const changed = results.filter(([, status]) => status === 'created' || status === 'updated');
+  if (options.check && changed.length > 0) {
+    console.error(`\n${changed.length} file(s) are out of date. Run: pnpm generate:api ${options.input}`);
+    process.exitCode = 1;
+  }
+};
+
+try {
+  main();
+} catch (error) {
+  console.error(`[generate-api] ${error instanceof Error ? error.message : error}`);
+  process.exitCode = 1;
+}
@@ -3,6 +3,7 @@ import { Geist, Geist_Mono } from "next/font/google";
 import "@/assets/scss/styles.scss";
 import { EnvProvider } from "@/lib/contexts/env-context";
 import { ModalProvider } from "@/components/providers/modal-provider";
+import { NetworkInspector } from "@/components/dev/network-inspector";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -32,6 +33,8 @@ export default function RootLayout({
           {children}
           {/* Modal Provider: 전역 모달 관리 */}
           <ModalProvider />
+          {/* 네트워크 인스펙터: 개발 환경에서만 표시 */}
+          <NetworkInspector />
         </EnvProvider>
       </body>
     </html>
@@ -0,0 +1,158 @@
+/**
+ * 네트워크 인스펙터 (개발 전용)
+ *
+ * 왜 필요한가?
+ * - 브라우저 개발자 도구 없이도 화면 위에서 최근 API 호출을 바로 확인
+ * - 요청 ID(X-Request-Id)로 백엔드 로그와 연결
+ * - 재시도, 중복 제거, 취소 같은 apiClient 내부 이벤트를 요청별로 확인
+ *
+ * 표시 조건:
+ * - EnvConfig.ENV === 'development'일 때만 렌더링
+ *
+ * 사용 예시:
+ * ```tsx
+ * // app/layout.tsx (EnvProvider 내부)
+ * <NetworkInspector />
+ * ```
+ */
+
+'use client';
+
+import { useState, useSyncExternalStore } from 'react';
+import { apiClient } from '@/lib/api-client';
+import type { TraceRecord } from '@/lib/api/trace';
+import { useEnv } from '@/lib/contexts/env-context';
+import styles from './network-inspector.module.scss';
+
+/**
+ * 서버 렌더링용 빈 스냅샷
+ */
+const EMPTY_RECORDS: TraceRecord[] = [];
+
+/**
+ * 상태 코드 표시 클래스
+ */
+const getStatusClass = (record: TraceRecord): string => {
+  if (record.success === null) {
+    return styles.pending;
+  }
+  return record.success ? styles.success : styles.failure;
+};
+
+/**
+ * 본문 표시용 문자열 변환
+ */
+const formatBody = (body: unknown): string => {
+  if (body === undefined) {
+    return '-';
+  }
+  if (typeof body === 'string') {
+    return body;
+  }
+  try {
+    return JSON.stringify(body, null, 2);
+  } catch {
+    return String(body);
+  }
+};
+
+/**
+ * 요청 상세 (본문, 이벤트)
+ */
+const RecordDetail = ({ record }: { record: TraceRecord }) => {
+  return (
+    <div className={styles.detail}>
+      <div className={styles.detailRow}>
+        <span className={styles.label}>Request ID</span>
+        <code>{record.id}</code>
+      </div>
+      <div className={styles.detailRow}>
+        <span className={styles.label}>URL</span>
+        <code>{record.url}</code>
+      </div>
+      {record.events.length > 0 && (
+        <ul className={styles.events}>
+          {record.events.map((event, index) => (
+            <li key={index} className={styles[event.level]}>
+              {event.message}
+            </li>
+          ))}
+        </ul>
+      )}
+      <span className={styles.label}>Request</span>
+      <pre className={styles.body}>{formatBody(record.requestBody)}</pre>
+      <span className={styles.label}>Response</span>
+      <pre className={styles.body}>{formatBody(record.responseBody)}</pre>
+    </div>
+  );
+};
+
+/**
+ * 네트워크 인스펙터 컴포넌트
+ *
+ * 왜 useSyncExternalStore를 사용하는가?
+ * - apiClient.tracer는 React 외부 저장소 → 변경 시에만 리렌더링
+ */
+export const NetworkInspector = () => {
+  const { ENV } = useEnv();
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const records = useSyncExternalStore(
+    apiClient.tracer.subscribe,
+    apiClient.tracer.getRecords,
+    () => EMPTY_RECORDS
+  );
+
+  if (ENV !== 'development') {
+    return null;
+  }
+
+  const failedCount = records.filter((record) => record.success === false).length;
+
+  if (!isOpen) {
+    return (
+      <button type="button" className={styles.toggle} onClick={() => setIsOpen(true)}>
+        API {records.length}
+        {failedCount > 0 && <span className={styles.badge}>{failedCount}</span>}
+      </button>
+    );
+  }
+
+  return (
+    <section className={styles.panel} aria-label="네트워크 인스펙터">
+      <header className={styles.header}>
+        <strong>Network ({records.length})</strong>
+        <div className={styles.actions}>
+          <button type="button" onClick={apiClient.tracer.clear}>
+            지우기
+          </button>
+          <button type="button" onClick={() => setIsOpen(false)}>
+            닫기
+          </button>
+        </div>
+      </header>
+
+      <ul className={styles.list}>
+        {records.length === 0 && <li className={styles.empty}>요청 기록이 없습니다</li>}
+        {records.map((record) => (
+          <li key={record.id}>
+            <button
+              type="button"
+              className={styles.row}
+              onClick={() => setSelectedId(selectedId === record.id ? null : record.id)}
+            >
+              <span className={styles.method}>{record.method}</span>
+              <span className={styles.url} title={record.url}>
+                {record.url}
+              </span>
+              <span className={getStatusClass(record)}>{record.status ?? '...'}</span>
+              <span className={styles.duration}>{record.duration === null ? '' : `${record.duration}ms`}</span>
+            </button>
+            {selectedId === record.id && <RecordDetail record={record} />}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
@@ -5,6 +5,8 @@
  * - 로고, 메뉴, 액션 버튼을 포함한 완전한 헤더
  * - 드롭다운 메뉴 지원 (단일 메뉴는 드롭다운 없음)
  * - 반응형 디자인 (모바일에서는 햄버거 메뉴)
+ * - 오프라인 상태 / 전송 대기 중인 변경 건수 표시
+ * - 실시간 연결(WebSocket) 상태 표시 (WS_URL이 설정되어 연결을 시작한 경우만)
  * - SCSS Module로 스타일 격리
  */
 
@@ -13,6 +15,8 @@
 import { useState, useRef, useEffect } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
+import { useOfflineQueue, useSocket } from '@/lib/hooks';
+import type { SocketState } from '@/lib/socket-client';
 import styles from './header.module.scss';
 
 // ==================== 타입 정의 ====================
@@ -56,6 +60,17 @@ export interface HeaderProps {
   onLogout?: () => void;
 }
 
+/**
+ * 실시간 연결 상태 라벨
+ */
+const SOCKET_STATE_LABELS: Record<SocketState, string> = {
+  idle: '실시간 연결 안 함',
+  connecting: '실시간 연결 중',
+  open: '실시간 연결됨',
+  reconnecting: '실시간 연결 끊김 - 다시 연결 중',
+  closed: '실시간 연결 종료',
+};
+
 // ==================== Header 컴포넌트 ====================
 
 export const Header = ({
@@ -74,6 +89,8 @@ export const Header = ({
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const profileRef = useRef<HTMLDivElement>(null);
+  const { count: queuedCount, isOnline, replay } = useOfflineQueue();
+  const { state: socketState } = useSocket();
 
   // 외부 클릭 감지하여 드롭다운 닫기
   useEffect(() => {
@@ -178,6 +195,35 @@ export const Header = ({
 
         {/* 우측: 액션 버튼 */}
         <div className={styles.actionsSection}>
+          {/* 실시간 연결 상태 (연결을 시작하지 않았으면 표시하지 않음) */}
+          {socketState !== 'idle' && (
+            <span
+              className={`${styles.socketIndicator} ${styles[socketState]}`}
+              title={SOCKET_STATE_LABELS[socketState]}
+              role="status"
+              aria-label={SOCKET_STATE_LABELS[socketState]}
+            >
+              <span className={styles.socketDot} />
+            </span>
+          )}
+
+          {/* 오프라인 / 전송 대기 (대기 중인 변경이 있거나 오프라인일 때만 표시) */}
+          {(queuedCount > 0 || !isOnline) && (
+            <button
+              className={`${styles.offlineIndicator} ${isOnline ? '' : styles.offline}`}
+              title={
+                isOnline
+                  ? `전송 대기 중인 변경 ${queuedCount}건 (클릭하여 다시 전송)`
+                  : `오프라인 - 연결되면 변경 ${queuedCount}건을 자동으로 전송합니다`
+              }
+              onClick={() => void replay()}
+              disabled={!isOnline}
+            >
+              <span className={styles.actionIcon}>{isOnline ? '⏳' : '📴'}</span>
+              {queuedCount > 0 && <span>{queuedCount > 99 ? '99+' : queuedCount}</span>}
+            </button>
+          )}
+
           {/* 알림 */}
           <button className={styles.actionButton} title="알림">
             <span className={styles.actionIcon}>🔔</span>
@@ -9,13 +9,17 @@
  *
  * 사용 방식:
  * 1. 컴포넌트: useApiClient().fetch(authApi.login({ email, password }))
- * 2. Store: createApiClient(baseURL).post('/auth/login', params) - 직접 호출
+ * 2. Store: 아래 login(), getCurrentUser() 등 직접 호출 함수 사용
+ *
+ * Mock 응답:
+ * - 개발용 응답은 mocks.ts에 route로 정의 (API_MOCK 설정 시 전송 계층에서 응답)
  */
 
-import type { ApiResponse, ApiSpec } from '@/lib/types';
+import type { ApiResponse } from '@/lib/types';
 import type { LoginParams, LoginResponse, RefreshTokenResponse } from './types';
 import type { User, CreateUserParams } from './types';
 import { apiClient } from '@/lib/api-client';
+import { defineApi } from '@/lib/api/define-api';
 import { AUTH_CONFIG } from '@/lib/constants';
 
 /**
@@ -26,6 +30,10 @@ import { AUTH_CONFIG } from '@/lib/constants';
  * - URL, 메서드, 파라미터를 한 곳에서 관리
  * - 순수 데이터 객체 (실행 로직 없음)
  *
+ * 왜 defineApi를 사용하는가?
+ * - 응답 타입이 명세에 포함되어 apiClient.fetch(authApi.login(params))가
+ *   제네릭 없이 ApiResponse<LoginResponse>를 반환
+ *
  * 사용 예시:
  * ```ts
  * const { fetch, loading } = useApiClient<LoginResponse>();
@@ -40,19 +48,17 @@ export const authApi = {
    * - 서버에서 httpOnly 쿠키로 토큰 관리
    * - 프론트엔드는 user 정보만 반환받음
    */
-  login: (params: LoginParams): ApiSpec => ({
+  login: defineApi<LoginResponse, LoginParams>()({
     method: 'POST',
     url: '/auth/login',
-    data: params,
   }),
 
   /**
    * 회원가입 API 명세
    */
-  signup: (params: CreateUserParams): ApiSpec => ({
+  signup: defineApi<User, CreateUserParams>()({
     method: 'POST',
     url: '/auth/signup',
-    data: params,
   }),
 
   /**
@@ -62,10 +68,10 @@ export const authApi = {
    * - 서버에서 httpOnly 쿠키 삭제
    * - 프론트엔드는 API 호출만 수행
    */
-  logout: {
+  logout: defineApi<void>()({
     method: 'POST',
     url: '/auth/logout',
-  } as ApiSpec,
+  }),
 
   /**
    * 토큰 갱신 API 명세
@@ -74,10 +80,22 @@ export const authApi = {
    * - 서버에서 자동으로 refresh token 쿠키 확인
    * - 새로운 토큰을 httpOnly 쿠키로 재설정
    */
-  refreshToken: (token: string): ApiSpec => ({
+  refreshToken: defineApi<RefreshTokenResponse, { refreshToken: string }>()({
+    method: 'POST',
+    url: '/auth/refresh',
+  }),
+
+  /**
+   * 토큰 갱신 API 명세 (쿠키 전용)
+   *
+   * 왜 refreshToken과 별도로 있는가?
+   * - refresh token이 httpOnly 쿠키라 프론트엔드에서 값을 읽을 수 없음
+   * - body 없이 호출하면 서버가 쿠키로 갱신 처리
+   * - 401 자동 갱신 인터셉터(entities/auth/interceptors.ts)에서 사용
+   */
+  refresh: defineApi<RefreshTokenResponse>()({
     method: 'POST',
     url: '/auth/refresh',
-    data: { refreshToken: token },
   }),
 
   /**
@@ -88,10 +106,10 @@ export const authApi = {
    * - 200 OK: 로그인 상태
    * - 401 Unauthorized: 비로그인 상태 → SSO 로그인 페이지로 리다이렉트
    */
-  getCurrentUser: {
+  getCurrentUser: defineApi<User>()({
     method: 'GET',
     url: AUTH_CONFIG.API_USER_ME,
-  } as ApiSpec,
+  }),
 } as const;
 
 // ==================== Store용 직접 호출 함수 (훅 사용 불가능한 경우) ====================
@@ -103,6 +121,9 @@ export const authApi = {
  * - Store (Zustand)에서는 훅(useApiClient)을 사용할 수 없음
  * - apiClient.fetch()를 직접 사용 (EnvProvider에서 이미 baseURL 설정됨)
  *
+ * 백엔드 없이 개발할 때:
+ * - window.__ENV__.API_MOCK = true → entities/auth/mocks.ts의 응답 사용
+ *
  * 사용 예시:
  * ```ts
  * // entities/auth/store.ts
@@ -115,36 +136,7 @@ export const authApi = {
  * ```
  */
 export const getCurrentUser = async (): Promise<ApiResponse<User>> => {
-  try {
-    // TODO: 실제 배포 시에는 Mock 제거하고 실제 API 호출
-    // return await apiClient.fetch<User>(authApi.getCurrentUser);
-
-    // Mock 응답 (개발용)
-    const mockUser: User = {
-      id: '1',
-      email: 'test@example.com',
-      name: '테스트 사용자',
-      role: 'admin',
-      status: 'active',
-      emailVerified: true,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
-
-    return {
-      success: true,
-      data: mockUser,
-      statusCode: 200,
-      timestamp: new Date().toISOString(),
-    };
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : '사용자 정보 조회에 실패했습니다',
-      statusCode: 500,
-      timestamp: new Date().toISOString(),
-    };
-  }
+  return apiClient.fetch(authApi.getCurrentUser());
 };
 
 /**
@@ -154,25 +146,17 @@ export const getCurrentUser = async (): Promise<ApiResponse<User>> => {
  * - Store에서 authApi.login()을 직접 실행
  * - apiClient.fetch()로 API 명세를 실행
  *
+ * 왜 skipAuthRefresh를 설정하는가?
+ * - 로그인의 401은 "토큰 만료"가 아니라 "자격 증명 불일치"이므로 토큰 갱신/SSO 리다이렉트 대상이 아님
+ *
  * @example
  * // Store에서 사용
  * const result = await login({ email, password });
  */
 export const login = async (params: LoginParams): Promise<ApiResponse<LoginResponse>> => {
-  try {
-    // TODO: 실제 API 호출
-    // return await apiClient.fetch<LoginResponse>(authApi.login(params));
-
-    // Mock 응답
-    return mockLogin(params);
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : '로그인에 실패했습니다',
-      statusCode: 500,
-      timestamp: new Date().toISOString(),
-    };
-  }
+  return apiClient.fetch(authApi.login(params), {
+    meta: { skipAuthRefresh: true },
+  });
 };
 
 /**
@@ -183,107 +167,36 @@ export const login = async (params: LoginParams): Promise<ApiResponse<LoginRespo
  * const result = await signup({ email, password, name });
  */
 export const signup = async (params: CreateUserParams): Promise<ApiResponse<User>> => {
-  try {
-    // TODO: 실제 API 호출
-    // return await apiClient.fetch<User>(authApi.signup(params));
-
-    // Mock 응답
-    return mockSignup(params);
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : '회원가입에 실패했습니다',
-      statusCode: 500,
-      timestamp: new Date().toISOString(),
-    };
-  }
+  return apiClient.fetch(authApi.signup(params));
 };
 
 /**
  * 로그아웃 (Store용)
  *
+ * 왜 skipAuthRefresh를 설정하는가?
+ * - 세션이 이미 만료된 상태의 로그아웃 401을 토큰 갱신/SSO 리다이렉트로 처리하지 않도록
+ *   (클라이언트 상태는 응답과 관계없이 초기화)
+ *
  * @example
  * // Store에서 사용
  * const result = await logout();
  */
 export const logout = async (): Promise<ApiResponse<void>> => {
-  try {
-    // TODO: 실제 API 호출
-    // return await apiClient.fetch<void>(authApi.logout);
-
-    return {
-      success: true,
-      statusCode: 200,
-      timestamp: new Date().toISOString(),
-    };
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : '로그아웃에 실패했습니다',
-      statusCode: 500,
-      timestamp: new Date().toISOString(),
-    };
-  }
-};
-
-// ==================== Mock Functions (개발용) ====================
-
-/**
- * Mock 로그인
- */
-const mockLogin = (params: LoginParams): ApiResponse<LoginResponse> => {
-  if (params.email === 'test@example.com' && params.password === 'Password123!') {
-    const mockUser: User = {
-      id: '1',
-      email: params.email,
-      name: '테스트 사용자',
-      role: 'user',
-      status: 'active',
-      emailVerified: true,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
-
-    return {
-      success: true,
-      data: {
-        user: mockUser,
-        accessToken: 'mock-access-token-' + Date.now(),
-        refreshToken: 'mock-refresh-token-' + Date.now(),
-        expiresIn: 3600,
-      },
-      statusCode: 200,
-      timestamp: new Date().toISOString(),
-    };
-  }
-
-  return {
-    success: false,
-    error: '이메일 또는 비밀번호가 올바르지 않습니다',
-    statusCode: 401,
-    timestamp: new Date().toISOString(),
-  };
+  return apiClient.fetch(authApi.logout(), {
+    meta: { skipAuthRefresh: true },
+  });
 };
 
 /**
- * Mock 회원가입
+ * 토큰 갱신 (인터셉터용)
+ *
+ * 왜 skipAuthRefresh를 설정하는가?
+ * - refresh API가 401을 받았을 때 다시 갱신을 시도하면 무한 대기 발생
+ *
+ * @returns 갱신 결과 (RefreshTokenResponse)
  */
-const mockSignup = (params: CreateUserParams): ApiResponse<User> => {
-  const mockUser: User = {
-    id: Date.now().toString(),
-    email: params.email,
-    name: params.name,
-    role: params.role || 'user',
-    status: 'pending',
-    emailVerified: false,
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
-  };
-
-  return {
-    success: true,
-    data: mockUser,
-    statusCode: 201,
-    timestamp: new Date().toISOString(),
-  };
+export const refresh = async (): Promise<ApiResponse<RefreshTokenResponse>> => {
+  return apiClient.fetch(authApi.refresh(), {
+    meta: { skipAuthRefresh: true },
+  });
 };
@@ -17,3 +17,6 @@ export * from './store';
 
 // Utils
 export * from './utils';
+
+// Interceptors
+export * from './interceptors';
@@ -0,0 +1,46 @@
+/**
+ * Auth 인터셉터
+ *
+ * 왜 여기에 있는가?
+ * - 401 처리(토큰 갱신, SSO 리다이렉트)는 인증 도메인의 규칙
+ * - api-client.ts를 수정하지 않고 인터셉터로 동작을 등록
+ *
+ * 동작:
+ * 1. 어떤 요청이든 401 → POST /auth/refresh 한 번만 호출
+ * 2. 갱신 성공 → 대기 중이던 요청들을 재전송
+ * 3. 갱신 실패 → SSO 로그인 페이지로 리다이렉트
+ */
+
+import { apiClient } from '@/lib/api-client';
+import { setupTokenRefresh } from '@/lib/api/token-refresh';
+import { refresh } from './api';
+import { redirectToSsoLogin } from './utils';
+
+/**
+ * 등록 해제 함수 (중복 등록 방지용)
+ */
+let removeAuthInterceptors: (() => void) | null = null;
+
+/**
+ * Auth 인터셉터 등록
+ *
+ * 왜 여러 번 호출해도 안전한가?
+ * - HMR, 여러 진입점에서 import되어도 인터셉터가 한 번만 등록되도록
+ *
+ * @returns 등록 해제 함수
+ */
+export const setupAuthInterceptors = (): (() => void) => {
+  if (!removeAuthInterceptors) {
+    const remove = setupTokenRefresh(apiClient, {
+      refresh: async () => (await refresh()).success,
+      onRefreshFailed: redirectToSsoLogin,
+    });
+
+    removeAuthInterceptors = () => {
+      remove();
+      removeAuthInterceptors = null;
+    };
+  }
+
+  return removeAuthInterceptors;
+};
@@ -0,0 +1,187 @@
+/**
+ * Auth Mock 응답 (백엔드 없이 개발/데모)
+ *
+ * 왜 api.ts가 아닌 별도 파일인가?
+ * - api.ts는 실제 호출만 담당하고, 개발용 응답은 전송 계층(mockTransport)에서 처리
+ * - 로그인 → /api/user/me → 401 → 토큰 갱신 실패 → SSO 리다이렉트 흐름을 실제 코드 그대로 확인
+ *
+ * Mock 세션:
+ * - sessionStorage에 저장 (탭을 닫으면 초기화)
+ * - 기본값은 로그인 상태 (관리자) - 로그아웃하면 401 흐름 확인 가능
+ * - CSRF 토큰 발급 API도 함께 흉내 (쿠키 설정 → 변경 요청 헤더로 전송되는지 확인)
+ *
+ * 테스트 계정:
+ * - test@example.com / Password123!
+ *
+ * 왜 index.ts에서 export하지 않는가?
+ * - API_MOCK일 때만 EnvProvider가 동적 import로 로드 (운영 번들의 초기 로드에 포함되지 않도록)
+ */
+
+import { mockTransport, type MockRoute } from '@/lib/api/mock-transport';
+import { createRequestId } from '@/lib/api/trace';
+import { setCookie } from '@/lib/cookie';
+import { API_CONFIG, AUTH_CONFIG } from '@/lib/constants';
+import type { CreateUserParams, LoginParams, LoginResponse, User } from './types';
+
+/**
+ * Mock 세션 sessionStorage 키
+ */
+const MOCK_SESSION_KEY = 'mock_auth_session';
+
+/**
+ * 로그아웃 상태 표시 값
+ */
+const SIGNED_OUT = 'signed-out';
+
+/**
+ * 기본 로그인 사용자 (세션이 없을 때)
+ */
+const createDefaultUser = (): User => ({
+  id: '1',
+  email: 'test@example.com',
+  name: '테스트 사용자',
+  role: 'admin',
+  status: 'active',
+  emailVerified: true,
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+});
+
+/**
+ * 현재 Mock 세션 사용자 (로그아웃 상태면 null)
+ */
+const getSessionUser = (): User | null => {
+  const stored = sessionStorage.getItem(MOCK_SESSION_KEY);
+  if (stored === SIGNED_OUT) {
+    return null;
+  }
+
+  try {
+    return stored ? (JSON.parse(stored) as User) : createDefaultUser();
+  } catch {
+    return createDefaultUser();
+  }
+};
+
+/**
+ * Mock 세션 저장 (null이면 로그아웃)
+ */
+const setSessionUser = (user: User | null): void => {
+  sessionStorage.setItem(MOCK_SESSION_KEY, user ? JSON.stringify(user) : SIGNED_OUT);
+};
+
+/**
+ * 인증 실패 응답
+ */
+const unauthorized = (message: string) => ({ status: 401, body: { message } });
+
+/**
+ * Auth Mock route 목록
+ */
+const authMockRoutes: MockRoute[] = [
+  {
+    method: 'POST',
+    url: '/auth/login',
+    handler: ({ body }) => {
+      const { email, password } = (body ?? {}) as LoginParams;
+      if (email !== 'test@example.com' || password !== 'Password123!') {
+        return unauthorized('이메일 또는 비밀번호가 올바르지 않습니다');
+      }
+
+      const user: User = { ...createDefaultUser(), role: 'user', lastLoginAt: new Date().toISOString() };
+      setSessionUser(user);
+
+      const response: LoginResponse = {
+        user,
+        accessToken: `mock-access-token-${Date.now()}`,
+        refreshToken: `mock-refresh-token-${Date.now()}`,
+        expiresIn: 3600,
+      };
+      return { body: response };
+    },
+  },
+  {
+    method: 'POST',
+    url: '/auth/signup',
+    handler: ({ body }) => {
+      const params = (body ?? {}) as CreateUserParams;
+      const user: User = {
+        id: Date.now().toString(),
+        email: params.email,
+        name: params.name,
+        role: params.role || 'user',
+        status: 'pending',
+        emailVerified: false,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      };
+      return { status: 201, body: user };
+    },
+  },
+  {
+    method: 'POST',
+    url: '/auth/logout',
+    handler: () => {
+      setSessionUser(null);
+      return { status: 204 };
+    },
+  },
+  {
+    // 세션이 없으면 401 → 인터셉터가 SSO 로그인 페이지로 리다이렉트
+    method: 'POST',
+    url: '/auth/refresh',
+    handler: () => {
+      if (!getSessionUser()) {
+        return unauthorized('세션이 만료되었습니다');
+      }
+      return {
+        body: {
+          accessToken: `mock-access-token-${Date.now()}`,
+          refreshToken: `mock-refresh-token-${Date.now()}`,
+          expiresIn: 3600,
+        },
+      };
+    },
+  },
+  {
+    // 실제 서버처럼 CSRF 쿠키를 설정하고 본문으로도 반환
+    method: 'GET',
+    url: API_CONFIG.CSRF_BOOTSTRAP_URL,
+    handler: () => {
+      const token = createRequestId();
+      setCookie(API_CONFIG.CSRF_COOKIE_NAME, token, { expires: 1, sameSite: 'strict' });
+      return { body: { token } };
+    },
+  },
+  {
+    method: 'GET',
+    url: AUTH_CONFIG.API_USER_ME,
+    handler: () => {
+      const user = getSessionUser();
+      return user ? { body: user } : unauthorized('로그인이 필요합니다');
+    },
+  },
+];
+
+/**
+ * 등록 해제 함수 (중복 등록 방지용)
+ */
+let removeAuthMocks: (() => void) | null = null;
+
+/**
+ * Auth Mock route 등록 (EnvProvider가 API_MOCK일 때만 호출)
+ *
+ * @returns 등록 해제 함수
+ */
+export const setupAuthMocks = (): (() => void) => {
+  if (!removeAuthMocks) {
+    const remove = mockTransport.register(authMockRoutes);
+
+    removeAuthMocks = () => {
+      remove();
+      removeAuthMocks = null;
+    };
+  }
+
+  return removeAuthMocks;
+};
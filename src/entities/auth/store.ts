@@ -18,7 +18,19 @@ import { create } from 'zustand';
 import type { User, LoginParams, CreateUserParams } from './types';
 import * as authAPI from './api';
 import type { AsyncState } from '@/lib/types';
-import { AUTH_CONFIG } from '@/lib/constants';
+import { apiClient } from '@/lib/api-client';
+import { socketClient } from '@/lib/socket-client';
+import { AUTH_REDIRECTING_KEY } from './utils';
+import { setupAuthInterceptors } from './interceptors';
+
+/**
+ * 401 토큰 갱신 인터셉터 등록
+ *
+ * 왜 스토어 파일에서 등록하는가?
+ * - 인증 상태를 사용하는 화면은 반드시 이 스토어를 import
+ * - 스토어가 로드되는 시점에 apiClient가 401을 처리할 준비가 됨
+ */
+setupAuthInterceptors();
 
 /**
  * 인증 스토어 상태 인터페이스
@@ -134,7 +146,7 @@ export const useAuthStore = create<AuthStore>()((set) => ({
           // 4. 실패 처리
           set({
             status: 'error',
-            error: result.error || '로그인에 실패했습니다',
+            error: result.error?.message || '로그인에 실패했습니다',
           });
           return false;
         } catch (error) {
@@ -166,7 +178,7 @@ export const useAuthStore = create<AuthStore>()((set) => ({
 
           set({
             status: 'error',
-            error: result.error || '회원가입에 실패했습니다',
+            error: result.error?.message || '회원가입에 실패했습니다',
           });
           return false;
         } catch (error) {
@@ -182,6 +194,13 @@ export const useAuthStore = create<AuthStore>()((set) => ({
        * 로그아웃 액션
        */
       logout: async () => {
+        // 이전 사용자의 캐시된 응답이 남지 않도록 전체 삭제
+        apiClient.invalidateCache();
+        // 오프라인 중 보관한 변경 요청이 다음 사용자의 세션으로 재전송되지 않도록 삭제
+        apiClient.offlineQueue.clear();
+        // 이전 사용자의 쿠키로 연결된 실시간 연결 종료 (다음 로그인 후 구독 시 다시 연결)
+        socketClient.disconnect();
+
         try {
           await authAPI.logout();
 
@@ -193,7 +212,7 @@ export const useAuthStore = create<AuthStore>()((set) => ({
             error: null,
           });
         } catch (error) {
-          console.error('[AuthStore] Logout error:', error);
+          apiClient.tracer.event(null, `Logout error: ${String(error)}`, 'error');
           // 로그아웃은 에러가 발생해도 클라이언트 상태는 초기화
           set({
             user: null,
@@ -214,7 +233,9 @@ export const useAuthStore = create<AuthStore>()((set) => ({
        * SSO 인증 플로우:
        * 1. GET /api/user/me 호출 (mes-ticket 쿠키 자동 전송)
        * 2. 200 OK → 사용자 정보 저장
-       * 3. 401 Unauthorized → SSO 로그인 페이지로 리다이렉트
+       * 3. 401 Unauthorized → apiClient 인터셉터가 토큰 갱신 시도
+       *    - 갱신 성공: 요청을 재전송하여 200 OK로 이어짐
+       *    - 갱신 실패: 인터셉터가 SSO 로그인 페이지로 리다이렉트
        * 4. SSO 로그인 완료 → 원래 페이지로 복귀
        *
        * 무한 리다이렉트 방지:
@@ -224,10 +245,10 @@ export const useAuthStore = create<AuthStore>()((set) => ({
       loadUser: async () => {
         // 무한 리다이렉트 방지: 이미 리다이렉트 중이면 중단
         if (typeof window !== 'undefined') {
-          const isRedirecting = sessionStorage.getItem('auth_redirecting');
+          const isRedirecting = sessionStorage.getItem(AUTH_REDIRECTING_KEY);
           if (isRedirecting === 'true') {
             // SSO에서 돌아왔으나 여전히 401이면 리다이렉트 플래그 제거
-            sessionStorage.removeItem('auth_redirecting');
+            sessionStorage.removeItem(AUTH_REDIRECTING_KEY);
           }
         }
 
@@ -246,26 +267,11 @@ export const useAuthStore = create<AuthStore>()((set) => ({
 
             // 리다이렉트 플래그 제거
             if (typeof window !== 'undefined') {
-              sessionStorage.removeItem('auth_redirecting');
+              sessionStorage.removeItem(AUTH_REDIRECTING_KEY);
             }
           } else if (result.statusCode === 401) {
-            // 401 Unauthorized: SSO 로그인 페이지로 리다이렉트
-            if (typeof window !== 'undefined') {
-              const isRedirecting = sessionStorage.getItem('auth_redirecting');
-
-              // 이미 리다이렉트 중이면 무한 루프 방지
-              if (isRedirecting !== 'true') {
-                sessionStorage.setItem('auth_redirecting', 'true');
-
-                const currentUrl = window.location.href;
-                const ssoUrl = `${AUTH_CONFIG.SSO_LOGIN_URL}?redirect=${encodeURIComponent(currentUrl)}`;
-
-                console.log('[AuthStore] 401 Unauthorized, redirecting to SSO:', ssoUrl);
-                window.location.href = ssoUrl;
-                return; // 리다이렉트 중이므로 상태 업데이트 불필요
-              }
-            }
-
+            // 401 Unauthorized: 토큰 갱신까지 실패한 상태
+            // SSO 리다이렉트는 인터셉터(entities/auth/interceptors.ts)가 처리
             set({
               user: null,
               isAuthenticated: false,
@@ -277,11 +283,11 @@ export const useAuthStore = create<AuthStore>()((set) => ({
               user: null,
               isAuthenticated: false,
               status: 'idle',
-              error: result.error || '사용자 정보 조회에 실패했습니다',
+              error: result.error?.message || '사용자 정보 조회에 실패했습니다',
             });
           }
         } catch (error) {
-          console.error('[AuthStore] loadUser error:', error);
+          apiClient.tracer.event(null, `Load user error: ${String(error)}`, 'error');
           set({
             user: null,
             isAuthenticated: false,
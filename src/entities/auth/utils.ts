@@ -8,6 +8,8 @@
  */
 
 import type { User, UserRole } from './types';
+import { AUTH_CONFIG } from '@/lib/constants';
+import { apiClient } from '@/lib/api-client';
 
 // ==================== 유효성 검증 ====================
 
@@ -96,3 +98,39 @@ export const hasRole = (user: User, requiredRole: UserRole): boolean => {
 export const getDisplayName = (user: User): string => {
   return user.name || user.email.split('@')[0] || '알 수 없는 사용자';
 };
+
+// ==================== SSO 리다이렉트 ====================
+
+/**
+ * 무한 리다이렉트 방지용 sessionStorage 키
+ */
+export const AUTH_REDIRECTING_KEY = 'auth_redirecting';
+
+/**
+ * SSO 로그인 페이지로 리다이렉트
+ *
+ * 왜 함수로 분리했는가?
+ * - 토큰 갱신 실패(인터셉터)와 loadUser() 양쪽에서 같은 규칙으로 리다이렉트
+ * - sessionStorage 플래그로 SSO → 앱 → SSO 무한 루프 방지
+ *
+ * @returns 리다이렉트를 시작했으면 true (이미 리다이렉트 중이거나 SSR이면 false)
+ */
+export const redirectToSsoLogin = (): boolean => {
+  if (typeof window === 'undefined') {
+    return false;
+  }
+
+  // 이미 리다이렉트 중이면 무한 루프 방지
+  if (sessionStorage.getItem(AUTH_REDIRECTING_KEY) === 'true') {
+    return false;
+  }
+
+  sessionStorage.setItem(AUTH_REDIRECTING_KEY, 'true');
+
+  const currentUrl = window.location.href;
+  const ssoUrl = `${AUTH_CONFIG.SSO_LOGIN_URL}?redirect=${encodeURIComponent(currentUrl)}`;
+
+  apiClient.tracer.event(null, `Redirecting to SSO: ${ssoUrl}`);
+  window.location.href = ssoUrl;
+  return true;
+};
@@ -6,6 +6,11 @@
  */
 
 import { apiClient } from './api-client';
+import { z } from 'zod';
+import { defineApi } from './api/define-api';
+import { defineGraphQL } from './api/graphql';
+import { socketClient } from './socket-client';
+import type { ApiSpec, FilterCondition } from './types';
 
 /**
  * ==================== GET 요청 예시 ====================
@@ -233,23 +238,27 @@ export const getPublicPosts = async () => {
 };
 
 /**
- * 13. 파일 업로드 (FormData 사용)
+ * 13. 파일 업로드 (multipart/form-data + 진행률)
  *
- * 주의: apiClient는 JSON을 기본으로 사용하므로,
- * 파일 업로드 시 별도 처리 필요
+ * - 파일 크기/확장자는 FILE_UPLOAD 기본값으로 전송 전 검사
+ * - Content-Type은 브라우저가 boundary와 함께 자동 설정
  */
-export const uploadFile = async (file: File) => {
-  const formData = new FormData();
-  formData.append('file', file);
-
-  // fetch API를 직접 사용하거나 apiClient를 확장해야 함
-  const response = await fetch('/api/upload', {
-    method: 'POST',
-    body: formData,
-    // Content-Type 헤더는 자동으로 설정됨 (multipart/form-data)
+export const uploadFile = async (
+  files: File[],
+  onProgress: (percent: number) => void,
+  signal?: AbortSignal
+) => {
+  const response = await apiClient.upload<{ fileIds: number[] }>('/files', files, {
+    fields: { category: 'report' },
+    onProgress: ({ percent }) => onProgress(percent),
+    signal,
   });
 
-  return response.json();
+  if (!response.success) {
+    console.error('업로드 실패:', response.error);
+  }
+
+  return response;
 };
 
 /**
@@ -258,24 +267,23 @@ export const uploadFile = async (file: File) => {
 export const getUserWithErrorHandling = async (id: number) => {
   const response = await apiClient.get<User>(`/users/${id}`);
 
-  if (!response.success) {
-    // 상태 코드별 처리
-    switch (response.statusCode) {
-      case 401:
-        console.error('인증 실패: 다시 로그인하세요');
-        // 로그인 페이지로 리다이렉트
+  if (!response.success && response.error) {
+    // 에러 타입별 처리 (상태 코드 대신 error.type으로 분기)
+    switch (response.error.type) {
+      case 'AUTHENTICATION_ERROR':
+        // 토큰 갱신 실패 시 인터셉터가 SSO로 리다이렉트
         break;
-      case 403:
-        console.error('권한 없음');
+      case 'AUTHORIZATION_ERROR':
+      case 'NOT_FOUND_ERROR':
+        console.error(response.error.message);
         break;
-      case 404:
-        console.error('사용자를 찾을 수 없습니다');
-        break;
-      case 500:
-        console.error('서버 오류');
+      case 'VALIDATION_ERROR':
+        // 필드별 에러 (예: { email: ['형식 오류'] })
+        console.error(response.error.fieldErrors);
         break;
       default:
-        console.error('알 수 없는 오류:', response.error);
+        // NETWORK_ERROR, SERVER_ERROR 등 - 사용자용 메시지가 이미 준비되어 있음
+        console.error(response.error.message);
     }
 
     return null;
@@ -306,7 +314,30 @@ export const fetchDashboardData = async () => {
 };
 
 /**
- * 16. Retry 로직 (실패 시 재시도)
+ * 16. Retry 옵션 (자동 재시도)
+ *
+ * 왜 옵션으로 제공하는가?
+ * - apiClient는 네트워크 에러/타임아웃/502·503·504를 기본으로 재시도 (GET/PUT/DELETE)
+ * - POST/PATCH는 중복 처리 위험 때문에 명시적으로 허용해야 재시도
+ */
+export const createOrderWithRetry = async (data: { productId: number; quantity: number }) => {
+  const response = await apiClient.post('/orders', data, {
+    // 서버가 멱등성을 보장하는 경우에만 허용
+    retry: { count: 2, allowNonIdempotent: true },
+  });
+
+  return response;
+};
+
+export const getStatsWithoutRetry = async () => {
+  // 실시간 데이터는 재시도 없이 바로 실패 처리
+  const response = await apiClient.get('/stats/realtime', null, { retry: false });
+
+  return response;
+};
+
+/**
+ * 17. Retry 로직 (응답 성공 여부 기준 수동 재시도)
  */
 export const fetchWithRetry = async <T>(
   url: string,
@@ -336,7 +367,7 @@ export const fetchWithRetry = async <T>(
  */
 
 /**
- * 17. React Query useQuery와 함께 사용
+ * 18. React Query useQuery와 함께 사용
  *
  * @example
  * import { useQuery } from '@tanstack/react-query';
@@ -350,14 +381,14 @@ export const fetchUsers = async (page: number, limit: number) => {
   const response = await apiClient.get<User[]>('/users', { page, limit });
 
   if (!response.success) {
-    throw new Error(response.error);
+    throw new Error(response.error?.message);
   }
 
   return response.data;
 };
 
 /**
- * 18. React Query useMutation과 함께 사용
+ * 19. React Query useMutation과 함께 사용
  *
  * @example
  * import { useMutation } from '@tanstack/react-query';
@@ -373,7 +404,7 @@ export const createUser = async (data: Omit<User, 'id'>) => {
   const response = await apiClient.post<User>('/users', data);
 
   if (!response.success) {
-    throw new Error(response.error);
+    throw new Error(response.error?.message);
   }
 
   return response.data;
@@ -399,7 +430,7 @@ interface PaginatedResponse<T> {
 }
 
 /**
- * 19. 페이지네이션이 포함된 요청
+ * 20. 페이지네이션이 포함된 요청
  */
 export const fetchPaginatedUsers = async (params: PaginationParams) => {
   const response = await apiClient.get<PaginatedResponse<User>>('/users', params);
@@ -420,7 +451,7 @@ interface SearchParams {
 }
 
 /**
- * 20. 검색 요청 (여러 필터 조합)
+ * 21. 검색 요청 (여러 필터 조합)
  */
 export const searchProducts = async (params: SearchParams) => {
   const response = await apiClient.get('/products/search', {
@@ -434,3 +465,478 @@ export const searchProducts = async (params: SearchParams) => {
 
   return response;
 };
+
+/**
+ * 21-1. 배열/날짜/필터 조건 파라미터
+ *
+ * - 배열: API_CONFIG.QUERY_ARRAY_FORMAT 형식 (기본값 repeat → ids=1&ids=2)
+ * - Date: ISO 8601 문자열
+ * - FilterCondition[]: filters[필드][연산자]=값 (in/notIn은 쉼표로 합침)
+ */
+export const searchOrders = async (statuses: string[], from: Date) => {
+  const filters: FilterCondition[] = [
+    { field: 'status', operator: 'in', value: statuses },
+    { field: 'orderedAt', operator: 'greaterOrEqual', value: from },
+  ];
+
+  return apiClient.get('/orders', { lineIds: [1, 2], filters });
+  // => GET /orders?lineIds=1&lineIds=2&filters[status][in]=READY,DONE&filters[orderedAt][greaterOrEqual]=2024-01-01T00:00:00.000Z
+};
+
+/**
+ * ==================== 응답 캐시 ====================
+ */
+
+interface CodeItem {
+  code: string;
+  name: string;
+}
+
+/**
+ * 22. 캐시가 적용된 API 명세
+ *
+ * 왜 ApiSpec에 선언하는가?
+ * - 코드 테이블처럼 자주 바뀌지 않는 참조 데이터는 페이지 이동마다 다시 부를 필요 없음
+ * - 5분간 fresh, 이후 1시간은 캐시를 먼저 보여주고 백그라운드에서 갱신
+ */
+export const codeApi = {
+  getCodes: (group: string): ApiSpec => ({
+    method: 'GET',
+    url: '/codes',
+    data: { group },
+    cache: { ttl: 5 * 60 * 1000, staleWhileRevalidate: 60 * 60 * 1000, tags: ['code-table'], persist: true },
+  }),
+
+  // 코드 수정 성공 시 'code-table' 태그 캐시 자동 삭제
+  updateCode: (code: CodeItem): ApiSpec => ({
+    method: 'PUT',
+    url: `/codes/${code.code}`,
+    data: code,
+    invalidates: ['code-table'],
+  }),
+};
+
+export const getCodes = async (group: string) => {
+  return apiClient.fetch<CodeItem[]>(codeApi.getCodes(group));
+};
+
+/**
+ * ==================== 파일 다운로드 ====================
+ */
+
+/**
+ * 23. 보고서 내보내기 (엑셀 다운로드)
+ *
+ * - 파일명은 서버의 Content-Disposition에서 읽음 (예: filename*=UTF-8''월간_생산실적.xlsx)
+ * - 검색 조건이 큰 보고서는 POST로 요청해도 됨
+ */
+export const reportApi = {
+  exportMonthly: (params: { year: number; month: number }): ApiSpec => ({
+    method: 'GET',
+    url: '/reports/monthly/export',
+    data: params,
+    responseType: 'blob',
+  }),
+};
+
+export const downloadMonthlyReport = async (year: number, month: number) => {
+  const response = await apiClient.download(reportApi.exportMonthly({ year, month }), {
+    filename: `monthly-${year}-${month}.xlsx`, // Content-Disposition이 없을 때만 사용
+  });
+
+  if (!response.success) {
+    console.error('다운로드 실패:', response.error);
+  }
+
+  return response;
+};
+
+/**
+ * 24. 텍스트 응답 (CSV 미리보기)
+ */
+export const getCsvPreview = async () => {
+  return apiClient.get<string>('/reports/daily.csv', undefined, { responseType: 'text' });
+};
+
+/**
+ * ==================== 응답 스키마 검증 ====================
+ */
+
+/**
+ * 25. zod 스키마로 응답 검증
+ *
+ * - 제네릭 없이 스키마에서 응답 타입 추론
+ * - 개발: 백엔드 응답이 스키마와 다르면 VALIDATION_ERROR (fieldErrors에 이슈 경로)
+ * - 운영: 콘솔 경고만 출력하고 원본 데이터 사용
+ */
+const equipmentSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  status: z.enum(['RUNNING', 'STOPPED', 'MAINTENANCE']),
+});
+
+export const equipmentApi = {
+  getEquipment: (id: number): ApiSpec<void, z.infer<typeof equipmentSchema>> => ({
+    method: 'GET',
+    url: `/equipments/${id}`,
+    schema: equipmentSchema,
+  }),
+};
+
+export const getEquipment = async (id: number) => {
+  const response = await apiClient.fetch(equipmentApi.getEquipment(id));
+  // response: ApiResponse<{ id: number; name: string; status: 'RUNNING' | 'STOPPED' | 'MAINTENANCE' }>
+
+  if (!response.success && response.error?.type === 'VALIDATION_ERROR') {
+    console.error('응답 형식 불일치:', response.error.fieldErrors);
+  }
+
+  return response.data;
+};
+
+/**
+ * ==================== 타입이 연결된 API 명세 ====================
+ */
+
+interface Order {
+  id: number;
+  userId: number;
+  status: string;
+}
+
+/**
+ * 26. defineApi로 API 명세 정의
+ *
+ * - url의 :id, :orderId가 필수 파라미터로 추론됨 (누락 시 컴파일 에러)
+ * - 파라미터 값은 자동 URL 인코딩
+ * - apiClient.fetch()가 제네릭 없이 응답 타입 반환
+ */
+export const orderApi = {
+  get: defineApi<Order>()({ method: 'GET', url: '/users/:userId/orders/:orderId' }),
+  list: defineApi<Order[], { status?: string }>()({ method: 'GET', url: '/users/:userId/orders' }),
+  cancel: defineApi<Order, { reason: string }>()({
+    method: 'POST',
+    url: '/users/:userId/orders/:orderId/cancel',
+    invalidates: ['orders'],
+  }),
+};
+
+export const getOrder = async (userId: number, orderId: number) => {
+  const response = await apiClient.fetch(orderApi.get({ userId, orderId }));
+  // response: ApiResponse<Order>
+
+  return response.data;
+};
+
+export const cancelOrder = async (userId: number, orderId: number, reason: string) => {
+  // (경로 파라미터, 요청 데이터)
+  return apiClient.fetch(orderApi.cancel({ userId, orderId }, { reason }));
+};
+
+/**
+ * ==================== 오프라인 큐 ====================
+ */
+
+/**
+ * 27. 오프라인에서도 작업 실적 등록 (연결 복구 시 자동 재전송)
+ *
+ * - offline: true인 변경 요청만 큐에 보관
+ * - 보관되면 success: false + queuedId → 입력값을 지우지 않고 "전송 대기" 안내
+ */
+export const submitWorkResult = async (result: { orderId: number; quantity: number }) => {
+  const response = await apiClient.post('/work-results', result, { offline: true });
+
+  if (response.queuedId) {
+    console.log('오프라인 - 연결되면 자동으로 전송됩니다:', response.queuedId);
+  }
+
+  return response;
+};
+
+/**
+ * 28. 재전송 결과 구독 (충돌 안내)
+ *
+ * 컴포넌트에서는 useOfflineQueue(onResult) 사용
+ */
+export const watchOfflineReplay = () => {
+  return apiClient.offlineQueue.onResult(({ mutation, status, response }) => {
+    if (status === 'conflict') {
+      console.warn(`${mutation.method} ${mutation.url}: 다른 수정과 충돌했습니다`, response.error);
+    } else if (status === 'failed') {
+      console.error(`${mutation.method} ${mutation.url}: 전송 실패`, response.error?.message);
+    }
+  });
+};
+
+/**
+ * ==================== 동시 요청/속도 제한 ====================
+ */
+
+/**
+ * 29. 일괄 조회 + 우선순위
+ *
+ * - 한 번에 수백 건을 요청해도 호스트별 동시 요청 수/초당 요청 수 안에서 순서대로 전송
+ * - 미리 불러오기는 priority: 'low' → 사용자가 누른 요청(high)이 먼저 전송됨
+ * - 429/503 응답은 Retry-After 시간 후 자동으로 다시 전송
+ */
+export const prefetchEquipmentList = async (ids: number[]) => {
+  return Promise.all(ids.map((id) => apiClient.get(`/equipment/${id}`, undefined, { priority: 'low' })));
+};
+
+export const saveEquipmentSetting = async (id: number, setting: Record<string, unknown>) => {
+  return apiClient.put(`/equipment/${id}/setting`, setting, { priority: 'high' });
+};
+
+/**
+ * ==================== CSRF ====================
+ */
+
+/**
+ * 30. CSRF 토큰 (기본 활성화)
+ *
+ * - POST/PUT/PATCH/DELETE에 XSRF-TOKEN 쿠키 값을 X-XSRF-TOKEN 헤더로 자동 추가
+ * - 쿠키가 없으면 /api/csrf로 먼저 발급, 403 CSRF 실패 시 재발급 후 한 번 재전송
+ * - 백엔드 규칙이 다르면 앱 시작 시 한 번 변경
+ */
+export const configureDjangoCsrf = () => {
+  apiClient.setCsrf({
+    cookieName: 'csrftoken',
+    headerName: 'X-CSRFToken',
+    bootstrapURL: '/api/csrf-token',
+  });
+};
+
+/**
+ * ==================== 여러 백엔드 (서비스) ====================
+ */
+
+/**
+ * 31. 서비스별 요청 (보고서 서버, 파일 서버)
+ *
+ * - 서비스 baseURL/타임아웃/헤더는 EnvConfig.API_SERVICES에서 설정
+ * - 인터셉터, 재시도, 속도 제한, 네트워크 기록은 apiClient와 공유
+ * - API 명세에 service를 지정하면 apiClient.fetch()가 해당 서비스로 전송
+ */
+const reportingApi = apiClient.service('reporting');
+
+export const getProductionReport = async (month: string) => {
+  return reportingApi.get<Record<string, number>>('/reports/production', { month });
+};
+
+export const fileApi = {
+  remove: defineApi<void>()({ method: 'DELETE', url: '/files/:fileId', service: 'files' }),
+};
+
+export const removeFile = async (fileId: string) => {
+  return apiClient.fetch(fileApi.remove({ fileId }));
+};
+
+/**
+ * ==================== 일괄 전송 (Batch) ====================
+ */
+
+/**
+ * 32. 화면 로딩 시 여러 조회를 한 번에 (POST /batch)
+ *
+ * - 응답은 명세 순서대로, 명세별 응답 타입 유지
+ * - 한 항목이 실패해도 나머지 항목은 영향 없음
+ * - EnvConfig.API_BATCH = true면 같은 틱의 apiClient.fetch() GET도 자동으로 묶임
+ */
+export const loadOrderScreen = async (userId: number, orderId: number) => {
+  const [order, orders] = await apiClient.batch([
+    orderApi.get({ userId, orderId }),
+    orderApi.list({ userId }, { status: 'OPEN' }),
+  ]);
+
+  return {
+    order: order.success ? order.data : null,
+    openOrders: orders.success ? orders.data : [],
+  };
+};
+
+/**
+ * ==================== 응답 헤더 / ETag ====================
+ */
+
+/**
+ * 33. 응답 헤더 읽기 + 동시 수정 충돌 처리
+ *
+ * - response.headers의 키는 소문자 (x-total-count, etag, link 등)
+ * - GET은 자동으로 If-None-Match 전송 → 304면 이전 본문을 그대로 반환
+ * - ifMatch: true → 상세 조회 때 받은 ETag로 저장, 그 사이 수정되었으면 CONFLICT_ERROR
+ */
+export const getUsersWithTotal = async (page: number) => {
+  const response = await apiClient.get<User[]>('/users', { page });
+
+  return {
+    users: response.data ?? [],
+    total: Number(response.headers?.['x-total-count'] ?? 0),
+  };
+};
+
+export const saveUserProfile = async (id: number, profile: Partial<User>) => {
+  const response = await apiClient.put<User>(`/users/${id}`, profile, { ifMatch: true });
+
+  if (response.error?.type === 'CONFLICT_ERROR') {
+    // 최신 내용을 다시 불러와 사용자에게 비교/재입력 안내
+    const latest = await apiClient.get<User>(`/users/${id}`);
+    return { conflict: true, latest: latest.data };
+  }
+
+  return { conflict: false, latest: response.data };
+};
+
+/**
+ * ==================== 페이지 순회 ====================
+ */
+
+/**
+ * 34. 전체 목록 순회 + 내보내기
+ *
+ * - paginate(): for await로 한 페이지씩 요청 (break하면 이후 페이지는 요청하지 않음)
+ * - fetchAll(): 전체 건수를 알면 나머지 페이지를 concurrency개씩 동시에 요청
+ * - mode: 'page' | 'offset' | 'cursor' | 'link' (Link 헤더의 rel="next")
+ * - 실패/취소 시 paginate()는 paginator.failure, fetchAll()은 실패 응답으로 전달
+ */
+const orderPageApi = {
+  list: defineApi<Order[], { status?: string; page: number; limit: number }>()({
+    method: 'GET',
+    url: '/users/:userId/orders',
+  }),
+};
+
+export const findFirstHeldOrder = async (userId: number, signal?: AbortSignal) => {
+  const paginator = apiClient.paginate(
+    (request) => orderPageApi.list({ userId }, { status: 'OPEN', page: request.page, limit: request.limit }),
+    { limit: 50, maxPages: 20, signal }
+  );
+
+  for await (const order of paginator) {
+    if (order.status === 'HOLD') {
+      return { order, error: null };
+    }
+  }
+
+  // 실패/취소로 멈췄으면 failure에 실패 응답이 남음
+  return { order: null, error: paginator.failure?.error ?? null };
+};
+
+export const exportOrders = async (userId: number) => {
+  const result = await apiClient.fetchAll(
+    (request) => orderPageApi.list({ userId }, { page: request.page, limit: request.limit }),
+    { limit: 500, concurrency: 3 }
+  );
+  // result: ApiResponse<Order[]>
+
+  return result.success ? result.data : [];
+};
+
+/**
+ * ==================== GraphQL ====================
+ */
+
+/**
+ * 35. GraphQL 작업 선언 + 실행
+ *
+ * - defineGraphQL: entities의 api.ts에서 REST 명세와 같은 방식으로 선언 (apiClient.fetch()로 실행)
+ * - persisted: true → 문서 대신 SHA-256 해시만 전송 (서버에 없으면 자동 등록)
+ * - errors가 있으면 실패 응답: error.fieldErrors에 path별 메시지 ('updateOrder.quantity' 등)
+ */
+export const orderGraphQLApi = {
+  get: defineGraphQL<{ order: Order }, { id: number }>()({
+    query: `query GetOrder($id: ID!) { order(id: $id) { id userId status } }`,
+    persisted: true,
+  }),
+  updateQuantity: defineGraphQL<{ updateOrder: Order }, { id: number; quantity: number }>()({
+    query: `mutation UpdateOrder($id: ID!, $quantity: Int!) { updateOrder(id: $id, quantity: $quantity) { id status } }`,
+    invalidates: ['orders'],
+  }),
+};
+
+export const updateOrderQuantity = async (id: number, quantity: number) => {
+  const response = await apiClient.fetch(orderGraphQLApi.updateQuantity({ id, quantity }));
+
+  if (!response.success) {
+    return { order: null, quantityError: response.error?.fieldErrors?.['updateOrder.quantity']?.[0] };
+  }
+  return { order: response.data?.updateOrder ?? null, quantityError: undefined };
+};
+
+export const getOrderStatus = async (id: number) => {
+  // 일회성 조회는 문서를 바로 전달
+  const response = await apiClient.graphql<{ order: Pick<Order, 'status'> }, { id: number }>(
+    `query GetOrderStatus($id: ID!) { order(id: $id) { status } }`,
+    { id }
+  );
+
+  return response.data?.order.status;
+};
+
+/**
+ * ==================== 스트리밍 (SSE / NDJSON) ====================
+ */
+
+/**
+ * 36. 장시간 작업 진행률 + 로그 tail
+ *
+ * - SSE: event 이름으로 구분, 연결이 끊기면 Last-Event-ID로 이어받기
+ * - NDJSON: 한 줄씩 JSON (형식은 Content-Type으로 자동 판단)
+ * - signal로 취소하면 onError 없이 종료 (화면 이탈 시 useEffect cleanup에서 abort)
+ */
+interface JobProgress {
+  percent: number;
+  message: string;
+}
+
+export const watchJob = (jobId: string, onProgress: (progress: JobProgress) => void) => {
+  const controller = new AbortController();
+
+  const done = apiClient.stream<JobProgress>(
+    { method: 'GET', url: `/jobs/${jobId}/events` },
+    {
+      signal: controller.signal,
+      onEvent: (event) => {
+        if (event.type === 'progress') onProgress(event.data);
+        if (event.type === 'done') controller.abort();
+      },
+      onError: (error, { closed }) => {
+        if (closed) console.error('작업 진행률 연결 종료:', error.message);
+      },
+    }
+  );
+
+  return { done, stop: () => controller.abort() };
+};
+
+export const tailLogs = async (lineId: string, signal: AbortSignal, onLine: (line: string) => void) => {
+  return apiClient.stream<{ message: string }>(
+    { method: 'POST', url: '/logs/tail', data: { lineId } },
+    { signal, format: 'ndjson', onEvent: (event) => onLine(event.data.message) }
+  );
+};
+
+/**
+ * ==================== 실시간 연결 (WebSocket) ====================
+ */
+
+/**
+ * 37. 설비 상태 실시간 구독 + 명령 전송
+ *
+ * - 접속 URL은 config.js의 WS_URL (첫 구독 시 연결)
+ * - 재연결되면 구독 중인 토픽을 자동으로 다시 구독
+ * - 연결이 끊긴 동안 보낸 명령은 보관했다가 연결되면 전송
+ * - 컴포넌트에서는 useSocket('equipment.status') 사용
+ */
+interface EquipmentStatus {
+  equipmentId: string;
+  status: 'RUN' | 'IDLE' | 'DOWN';
+}
+
+export const watchEquipment = (lineId: string, onStatus: (status: EquipmentStatus) => void) => {
+  // 반환값(구독 해제 함수)을 화면 이탈 시 호출
+  return socketClient.subscribe<EquipmentStatus>(`equipment.status.${lineId}`, onStatus);
+};
+
+export const stopEquipment = (equipmentId: string) => {
+  socketClient.send('equipment.command', { equipmentId, command: 'STOP' });
+};
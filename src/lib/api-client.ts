@@ -12,13 +12,64 @@
  * - 필요한 기능만 구현하여 경량화
  */
 
-import type { ApiResponse, ApiSpec } from './types';
-import { API_CONFIG } from './constants';
-
-/**
- * HTTP 메서드
- */
-type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+import type {
+  ApiResponse,
+  ApiResponseType,
+  ApiServiceConfig,
+  ApiServiceName,
+  ApiSpec,
+  GraphQLOperation,
+  HttpMethod,
+} from './types';
+import {
+  getRetryDelay,
+  isRetryableError,
+  isRetryableStatus,
+  parseRetryAfter,
+  resolveRetryPolicy,
+  wait,
+  type RetryConfig,
+} from './api/retry';
+import {
+  InterceptorManager,
+  isApiResponse,
+  type ApiRequest,
+  type RequestInterceptor,
+  type RequestMeta,
+  type ResponseInterceptor,
+} from './api/interceptors';
+import { RequestDeduper, getDedupeKey } from './api/dedupe';
+import { combineWithTimeout, createAbortError, createTimeoutError, raceWithSignal } from './api/signal';
+import { ResponseCache } from './api/cache';
+import {
+  buildUploadFormData,
+  getFormDataFiles,
+  validateUploadFiles,
+  type UploadLimits,
+  type UploadProgress,
+} from './api/upload';
+import { createQuerySerializer, defaultQuerySerializer, type QuerySerializer, type QuerySerializerOptions } from './api/query';
+import { createAppError, createHttpError } from './api/errors';
+import { validateResponse } from './api/schema';
+import { fetchTransport, type Transport } from './api/transport';
+import { ApiTracer, REQUEST_ID_HEADER, createRequestId } from './api/trace';
+import { IDEMPOTENCY_KEY_HEADER, OfflineQueue, isOffline, type QueuedMutation } from './api/offline-queue';
+import { RequestScheduler, type RateLimitOptions } from './api/scheduler';
+import { setupCsrf, type CsrfOptions } from './api/csrf';
+import { DEFAULT_SERVICE, ServiceRegistry } from './api/services';
+import { RequestBatcher, type BatchOptions, type BatchSender } from './api/batch';
+import { EtagStore } from './api/etag';
+import {
+  PersistedQueryStore,
+  buildGraphQLPayload,
+  hasPersistedQueryError,
+  toGraphQLResponse,
+  type GraphQLResult,
+} from './api/graphql';
+import { consumeStream, onStreamEnd, type StreamHandlers, type StreamOpener } from './api/stream';
+import { Paginator, type PageItem, type PageRequest, type PaginateOptions } from './api/paginate';
+import { getFilenameFromURL, parseContentDispositionFilename, saveBlob } from './api/download';
+import { API_CONFIG, HTTP_STATUS, STORAGE_KEYS } from './constants';
 
 /**
  * API 요청 옵션
@@ -30,8 +81,139 @@ type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
 export interface RequestOptions extends RequestInit {
   /** 타임아웃 (밀리초) */
   timeout?: number;
+  /**
+   * 재시도 설정
+   *
+   * - 미지정: API_CONFIG 기본값 (GET/PUT/DELETE만 재시도)
+   * - number: 재시도 횟수
+   * - false: 재시도 비활성화
+   * - { allowNonIdempotent: true }: POST/PATCH도 재시도
+   */
+  retry?: RetryConfig;
+  /** 인터셉터에 전달할 메타데이터 (예: { skipAuthRefresh: true }) */
+  meta?: RequestMeta;
+  /**
+   * 동시 GET 요청 중복 제거 여부 (기본값: true)
+   *
+   * 언제 false로 설정하는가?
+   * - 같은 URL이라도 매번 새 응답이 필요한 경우 (예: 폴링, 실시간 값)
+   */
+  dedupe?: boolean;
+  /**
+   * 업로드 진행률 콜백
+   *
+   * 지정하면 fetch 대신 XMLHttpRequest로 전송 (fetch는 업로드 진행률 미지원)
+   */
+  onUploadProgress?: (progress: UploadProgress) => void;
+  /**
+   * 응답 본문 파싱 방식 (기본값: 'json')
+   *
+   * ApiSpec.responseType보다 우선 적용
+   */
+  responseType?: ApiResponseType;
+  /** 이 요청에만 사용할 Query String 직렬화 함수 (기본값: apiClient 전역 설정) */
+  paramsSerializer?: QuerySerializer;
+  /**
+   * 오프라인이면 큐에 보관했다가 연결 복구 시 재전송 (POST/PUT/PATCH/DELETE, 기본값: false)
+   *
+   * - Idempotency-Key 헤더를 붙여 전송 (재전송 시 같은 키 사용)
+   * - 큐에 보관되면 실패 응답과 함께 queuedId 반환
+   * - FormData(파일 업로드)는 LocalStorage에 저장할 수 없어 제외
+   */
+  offline?: boolean;
+  /**
+   * 요청 우선순위 (기본값: 'auto')
+   *
+   * fetch의 priority 힌트와 같은 값을 사용하며,
+   * 동시 요청/속도 제한에 걸려 대기할 때 high → auto → low 순으로 전송
+   * - high: 사용자가 직접 실행한 요청
+   * - low: 미리 불러오기 등 백그라운드 요청
+   */
+  priority?: RequestPriority;
+  /**
+   * 요청을 보낼 서비스 (기본값: 'core')
+   *
+   * ApiSpec.service보다 우선 적용 (apiClient.service()로 얻은 클라이언트는 자동 지정)
+   */
+  service?: ApiServiceName;
+  /**
+   * 일괄 전송(POST /batch) 대상 여부 - apiClient.fetch()에서만 사용
+   *
+   * - 미지정: 자동 묶음 설정(setBatching({ auto }))을 따름
+   * - true: 자동 묶음 설정과 관계없이 같은 틱의 요청과 묶음 (apiClient.batch()가 지정)
+   * - false: 묶지 않음 (폴링처럼 바로 보내야 하는 요청)
+   */
+  batch?: boolean;
+  /**
+   * GET에 ETag 조건부 요청(If-None-Match) 사용 여부 (기본값: true)
+   *
+   * 304 응답이면 이전 응답 본문을 그대로 반환
+   */
+  conditional?: boolean;
+  /**
+   * 낙관적 동시성 제어 - If-Match 헤더 (PUT/PATCH/DELETE)
+   *
+   * - true: 같은 URL의 마지막 응답 ETag 사용 (상세 조회 후 저장)
+   * - string: 지정한 ETag 사용
+   * - 그 사이 다른 사용자가 수정했으면 412 → error.type 'CONFLICT_ERROR'
+   */
+  ifMatch?: string | true;
+}
+
+/**
+ * apiClient.batch()의 응답 목록 (명세 순서대로, 명세의 응답 타입 유지)
+ */
+export type BatchResponses<S extends readonly ApiSpec[]> = {
+  -readonly [K in keyof S]: ApiResponse<S[K] extends ApiSpec<any, infer R> ? R : unknown>;
+};
+
+/**
+ * 파일 다운로드 옵션
+ */
+export interface DownloadOptions extends RequestOptions {
+  /** Content-Disposition에 파일명이 없을 때 사용할 파일명 (기본값: URL 마지막 경로) */
+  filename?: string;
+}
+
+/**
+ * 스트림 요청 옵션 (이벤트 콜백 + 재연결 설정 + 요청 옵션)
+ */
+export interface StreamOptions<T = unknown> extends RequestOptions, StreamHandlers<T> {}
+
+/**
+ * GraphQL 요청 옵션
+ */
+export interface GraphQLRequestOptions extends RequestOptions {
+  /** HTTP 메서드 (기본값: 'POST', 조회를 캐시/ETag 대상으로 만들려면 'GET') */
+  method?: 'GET' | 'POST';
+  /** GraphQL 엔드포인트 경로 (기본값: API_CONFIG.GRAPHQL_URL) */
+  url?: string;
+}
+
+/**
+ * 파일 업로드 옵션
+ */
+export interface UploadOptions extends RequestOptions, UploadLimits {
+  /** 업로드 진행률 콜백 */
+  onProgress?: (progress: UploadProgress) => void;
+  /** 파일과 함께 보낼 일반 필드 (File[] 전달 시에만 사용) */
+  fields?: Record<string, string | Blob>;
+  /** 파일 필드 이름 (File[] 전달 시에만 사용, 기본값: 'file') */
+  fieldName?: string;
 }
 
+/**
+ * 특정 서비스에 고정된 클라이언트 (apiClient.service()의 반환값)
+ *
+ * 왜 ApiClient 인스턴스가 아닌가?
+ * - 인터셉터, 재시도, 속도 제한, 추적 기록을 apiClient와 공유해야 함
+ * - 요청 메서드만 노출하고 설정 변경(setBaseURL 등)은 apiClient에서만
+ */
+export type ServiceClient = Pick<
+  ApiClient,
+  'get' | 'post' | 'put' | 'delete' | 'patch' | 'upload' | 'download' | 'fetch' | 'batch' | 'paginate' | 'fetchAll' | 'graphql' | 'stream'
+>;
+
 /**
  * API 클라이언트 클래스
  *
@@ -42,15 +224,99 @@ export interface RequestOptions extends RequestInit {
  */
 export class ApiClient {
   private static instance: ApiClient;
-  private baseURL: string;
   private defaultTimeout: number;
 
+  /** 서비스(백엔드)별 baseURL, 타임아웃, 헤더 */
+  private services: ServiceRegistry;
+
+  /** 서비스별 고정 클라이언트 (apiClient.service() 결과 재사용) */
+  private serviceClients = new Map<ApiServiceName, ServiceClient>();
+
+  /**
+   * 요청/응답 인터셉터
+   *
+   * 왜 public인가?
+   * - entities 모듈이 api-client.ts 수정 없이 동작을 추가할 수 있도록
+   *
+   * @example
+   * apiClient.interceptors.request.use((request) => {
+   *   request.headers.set('X-Plant-Code', 'P01');
+   *   return request;
+   * });
+   *
+   * apiClient.interceptors.response.use(undefined, (response) => {
+   *   if (response.statusCode === 403) router.replace('/403');
+   *   return response;
+   * });
+   */
+  readonly interceptors = {
+    request: new InterceptorManager<RequestInterceptor>(),
+    response: new InterceptorManager<ResponseInterceptor, ResponseInterceptor>(),
+  };
+
+  /**
+   * 요청 추적 기록 (X-Request-Id, 상태, 소요 시간)
+   *
+   * 왜 public인가?
+   * - 개발용 네트워크 인스펙터가 구독하여 최근 요청 목록 표시
+   */
+  readonly tracer = new ApiTracer();
+
+  /** 진행 중인 GET 요청 (중복 제거용) */
+  private deduper = new RequestDeduper((key) => this.tracer.event(null, `Deduplicated in-flight request: ${key}`));
+
+  /** 응답 캐시 (ApiSpec.cache 사용 시) */
+  private cache = new ResponseCache();
+
+  /** GET/DELETE 파라미터 직렬화 함수 */
+  private querySerializer: QuerySerializer = defaultQuerySerializer;
+
+  /**
+   * 오프라인 변경 요청 큐 (RequestOptions.offline 사용 시)
+   *
+   * 왜 public인가?
+   * - Header가 대기 건수를 구독하고, 화면이 재전송 결과(충돌 등)를 구독
+   */
+  readonly offlineQueue = new OfflineQueue(STORAGE_KEYS.OFFLINE_QUEUE);
+
+  /** 전송 계층 (기본: fetch, 개발 시 mock으로 교체 가능) */
+  private transport: Transport = fetchTransport;
+
+  /** 호스트별 동시 요청/속도 제한 */
+  private scheduler = new RequestScheduler({
+    maxConcurrent: API_CONFIG.MAX_CONCURRENT_PER_HOST,
+    requestsPerSecond: API_CONFIG.RATE_LIMIT_PER_SECOND,
+    burst: API_CONFIG.RATE_LIMIT_BURST,
+  });
+
+  /** URL별 ETag (If-None-Match/If-Match) */
+  private etags = new EtagStore(API_CONFIG.ETAG_MAX_ENTRIES);
+
+  /** 일괄 전송 대기열 (apiClient.batch(), 자동 묶음) */
+  private batcher = new RequestBatcher((...args) => this.sendBatch(...args));
+
+  /** GraphQL Persisted Query 해시 */
+  private persistedQueries = new PersistedQueryStore();
+
+  /** CSRF 인터셉터 해제 함수 (비활성화 상태면 null) */
+  private removeCsrf: (() => void) | null = null;
+
   /**
    * private 생성자 (Singleton)
    */
   private constructor() {
-    this.baseURL = API_CONFIG.BASE_URL;
     this.defaultTimeout = API_CONFIG.TIMEOUT;
+    this.services = new ServiceRegistry(API_CONFIG.BASE_URL, (name) =>
+      this.tracer.event(null, `Service "${name}" is not configured, using "${DEFAULT_SERVICE}" baseURL`, 'warn')
+    );
+
+    // 쿠키 인증을 사용하므로 변경 요청에는 기본으로 CSRF 토큰 헤더 추가
+    this.setCsrf({});
+
+    // 연결이 복구되면 오프라인 중 보관한 변경 요청 재전송
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => void this.replayOfflineQueue());
+    }
   }
 
   /**
@@ -64,7 +330,7 @@ export class ApiClient {
   };
 
   /**
-   * baseURL 설정
+   * baseURL 설정 (기본 서비스 'core')
    *
    * 왜 필요한가?
    * - EnvProvider에서 런타임에 baseURL을 주입하기 위함
@@ -78,17 +344,187 @@ export class ApiClient {
    * apiClient.setBaseURL('https://api.production.com');
    */
   setBaseURL = (url: string): void => {
-    this.baseURL = url;
-    console.log('[ApiClient] baseURL set to:', url);
+    this.services.configure(DEFAULT_SERVICE, { baseURL: url });
+    this.tracer.event(null, `baseURL set to: ${url}`);
+  };
+
+  /**
+   * 서비스(백엔드)별 설정 등록
+   *
+   * 왜 필요한가?
+   * - 보고서, 파일 서버처럼 baseURL/타임아웃/헤더가 다른 백엔드를 같은 apiClient로 호출
+   * - EnvProvider가 EnvConfig.API_SERVICES로 호출 (배포 환경마다 주소가 다름)
+   *
+   * @param services - 서비스별 설정 (기존 설정 위에 병합)
+   *
+   * @example
+   * apiClient.configureServices({
+   *   reporting: { baseURL: 'https://report.example.com', timeout: 120000 },
+   *   files: { baseURL: 'https://files.example.com', headers: { 'X-Api-Version': '2' } },
+   * });
+   */
+  configureServices = (services: Partial<Record<ApiServiceName, Partial<ApiServiceConfig>>>): void => {
+    this.services.configureAll(services);
+    this.tracer.event(null, `services configured: ${Object.keys(services).join(', ') || '(none)'}`);
+  };
+
+  /**
+   * 특정 서비스로 요청을 보내는 클라이언트
+   *
+   * 인터셉터, 재시도, 속도 제한, 캐시, 추적 기록은 apiClient와 공유
+   *
+   * @param name - 서비스 이름
+   *
+   * @example
+   * const reportClient = apiClient.service('reporting');
+   * await reportClient.get('/monthly', { year: 2024 });
+   * await reportClient.download(reportApi.exportMonthly({ year: 2024, month: 5 }));
+   */
+  service = (name: ApiServiceName): ServiceClient => {
+    let client = this.serviceClients.get(name);
+
+    if (!client) {
+      // 호출부가 service를 직접 지정하지 않았으면 이 서비스로 고정
+      const bind = <O extends RequestOptions>(options?: O): O => ({ ...options, service: options?.service ?? name }) as O;
+
+      client = {
+        get: <T>(url: string, data?: unknown, options?: RequestOptions) => this.get<T>(url, data, bind(options)),
+        post: <T>(url: string, data?: unknown, options?: RequestOptions) => this.post<T>(url, data, bind(options)),
+        put: <T>(url: string, data?: unknown, options?: RequestOptions) => this.put<T>(url, data, bind(options)),
+        delete: <T>(url: string, data?: unknown, options?: RequestOptions) => this.delete<T>(url, data, bind(options)),
+        patch: <T>(url: string, data?: unknown, options?: RequestOptions) => this.patch<T>(url, data, bind(options)),
+        upload: <T>(url: string, files: FormData | File[], options?: UploadOptions) =>
+          this.upload<T>(url, files, bind(options)),
+        download: (apiSpec: ApiSpec, options?: DownloadOptions) => this.download(apiSpec, bind(options)),
+        fetch: <T = any>(apiSpec: ApiSpec<any, T>, options?: RequestOptions) => this.fetch<T>(apiSpec, bind(options)),
+        batch: (specs, options) => this.batch(specs, bind(options)),
+        paginate: (factory, options) =>
+          this.paginate(factory, { ...options, requestOptions: bind(options?.requestOptions) }),
+        fetchAll: (factory, options) =>
+          this.fetchAll(factory, { ...options, requestOptions: bind(options?.requestOptions) }),
+        graphql: <TData = any, TVars = Record<string, unknown>>(
+          document: string | GraphQLOperation,
+          variables?: TVars,
+          options?: GraphQLRequestOptions
+        ) => this.graphql<TData, TVars>(document, variables, bind(options)),
+        stream: <T = unknown>(apiSpec: ApiSpec, options: StreamOptions<T>) => this.stream<T>(apiSpec, bind(options)),
+      };
+      this.serviceClients.set(name, client);
+    }
+
+    return client;
+  };
+
+  /**
+   * Query String 직렬화 방식 설정
+   *
+   * 왜 필요한가?
+   * - 백엔드마다 배열/객체 파라미터를 받는 형식이 다름
+   * - 옵션만 바꾸거나, qs 같은 라이브러리 함수로 통째로 교체 가능
+   *
+   * @param serializer - 직렬화 옵션 또는 직렬화 함수
+   *
+   * @example
+   * apiClient.setQuerySerializer({ arrayFormat: 'brackets', keepEmptyStrings: true });
+   * apiClient.setQuerySerializer((params) => qs.stringify(params));
+   */
+  setQuerySerializer = (serializer: QuerySerializerOptions | QuerySerializer): void => {
+    this.querySerializer = typeof serializer === 'function' ? serializer : createQuerySerializer(serializer);
+  };
+
+  /**
+   * 전송 계층 교체
+   *
+   * 왜 필요한가?
+   * - 백엔드 없이 개발할 때 mock transport로 교체 (EnvProvider에서 API_MOCK 설정 시)
+   * - 인터셉터, 재시도, 에러 분류는 그대로 거치므로 실제 서버와 같은 흐름 확인 가능
+   *
+   * @param transport - 전송 함수 (생략 시 기본 fetch로 복원)
+   *
+   * @example
+   * apiClient.setTransport(mockTransport.handle);
+   * apiClient.setTransport(); // 기본 fetch로 복원
+   */
+  setTransport = (transport?: Transport): void => {
+    this.transport = transport ?? fetchTransport;
+    this.tracer.event(null, `transport set to: ${transport ? 'custom' : 'fetch'}`);
+  };
+
+  /**
+   * 동시 요청/속도 제한 설정
+   *
+   * 왜 필요한가?
+   * - 백엔드 rate limiter 설정이 환경마다 달라 빌드 후에도 바꿀 수 있어야 함
+   * - EnvProvider가 런타임 설정(API_MAX_CONCURRENT, API_RATE_LIMIT)으로 호출
+   *
+   * @param options - 변경할 값만 전달 (0이면 해당 제한 해제)
+   *
+   * @example
+   * apiClient.setRateLimit({ maxConcurrent: 4, requestsPerSecond: 10 });
+   */
+  setRateLimit = (options: RateLimitOptions): void => {
+    this.scheduler.configure(options);
+  };
+
+  /**
+   * 일괄 전송 설정 변경
+   *
+   * 왜 필요한가?
+   * - batch API 경로/본문 형식이 백엔드마다 다름
+   * - 자동 묶음은 batch API가 있는 환경에서만 켜야 함 (EnvConfig.API_BATCH)
+   *
+   * @param options - 변경할 값만 전달
+   *
+   * @example
+   * apiClient.setBatching({ auto: true, maxSize: 30 });
+   * apiClient.setBatching({
+   *   url: '/$batch',
+   *   envelope: {
+   *     encode: (items) => ({ operations: items }),
+   *     decode: (body) => (body as { results: BatchItemResponse[] }).results,
+   *   },
+   * });
+   */
+  setBatching = (options: BatchOptions): void => {
+    this.batcher.configure(options);
+  };
+
+  /**
+   * CSRF 방어 설정 변경
+   *
+   * 왜 필요한가?
+   * - 백엔드 프레임워크마다 CSRF 쿠키/헤더 이름이 다름 (Spring: XSRF-TOKEN, Django: csrftoken)
+   * - CSRF를 다른 방식(SameSite 등)으로 처리하는 백엔드는 끌 수 있어야 함
+   *
+   * @param options - CSRF 설정 (false면 비활성화)
+   *
+   * @example
+   * apiClient.setCsrf({ cookieName: 'csrftoken', headerName: 'X-CSRFToken' });
+   * apiClient.setCsrf(false);
+   */
+  setCsrf = (options: CsrfOptions | false): void => {
+    this.removeCsrf?.();
+    this.removeCsrf = options === false ? null : setupCsrf(this, options);
   };
 
   /**
    * 현재 baseURL 가져오기
    *
+   * @param service - 서비스 이름 (기본값: 'core')
    * @returns 현재 설정된 baseURL
    */
-  getBaseURL = (): string => {
-    return this.baseURL;
+  getBaseURL = (service: ApiServiceName = DEFAULT_SERVICE): string => {
+    return this.services.get(service).baseURL;
+  };
+
+  /**
+   * 등록된 모든 서비스의 baseURL
+   *
+   * 언제 사용하는가?
+   * - CSRF 토큰처럼 우리 백엔드로만 보내야 하는 값의 전송 대상 판단
+   */
+  getBaseURLs = (): string[] => {
+    return this.services.getBaseURLs();
   };
 
   /**
@@ -146,6 +582,95 @@ export class ApiClient {
     return this.request<T>(url, 'PATCH', data, options);
   };
 
+  /**
+   * 파일 업로드 (multipart/form-data)
+   *
+   * 왜 post()와 별도로 있는가?
+   * - post()는 data를 JSON으로 직렬화하므로 파일 전송 불가
+   * - 업로드 진행률, FILE_UPLOAD 제한 검사를 함께 제공
+   *
+   * 처리 방식:
+   * 1. 파일 크기/확장자 검사 (실패 시 전송 없이 400 응답)
+   * 2. File[]이면 FormData 생성 (fields도 함께 추가)
+   * 3. Content-Type은 브라우저가 boundary와 함께 자동 설정
+   *
+   * @param url - 요청 URL
+   * @param files - FormData 또는 File 배열
+   * @param options - 진행률 콜백, 추가 필드, 제한 등
+   *
+   * @example
+   * const response = await apiClient.upload<UploadResult>('/files', [file], {
+   *   fields: { category: 'report' },
+   *   onProgress: ({ percent }) => setProgress(percent),
+   *   signal: controller.signal,
+   * });
+   */
+  upload = async <T>(url: string, files: FormData | File[], options?: UploadOptions): Promise<ApiResponse<T>> => {
+    const { onProgress, fields, fieldName = 'file', maxSize, allowedExtensions, ...requestOptions } = options ?? {};
+
+    // 1. 전송 전 파일 제한 검사
+    const fileList = files instanceof FormData ? getFormDataFiles(files) : files;
+    const validationError = validateUploadFiles(fileList, { maxSize, allowedExtensions });
+    if (validationError) {
+      return {
+        success: false,
+        error: createAppError('VALIDATION_ERROR', {
+          message: validationError,
+          statusCode: HTTP_STATUS.BAD_REQUEST,
+          fieldErrors: { [fieldName]: [validationError] },
+        }),
+        statusCode: HTTP_STATUS.BAD_REQUEST,
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    // 2. FormData 구성
+    const formData = files instanceof FormData ? files : buildUploadFormData(files, fieldName, fields);
+
+    return this.request<T>(url, 'POST', formData, {
+      ...requestOptions,
+      onUploadProgress: onProgress,
+    });
+  };
+
+  /**
+   * 파일 다운로드 (보고서 내보내기 등)
+   *
+   * 처리 방식:
+   * 1. responseType 'blob'으로 요청
+   * 2. Content-Disposition에서 파일명 추출 (RFC 5987 한글 파일명 포함)
+   * 3. 브라우저 저장 실행
+   *
+   * 실패 시 저장하지 않고 실패 응답만 반환
+   *
+   * @param apiSpec - API 명세 (GET/POST 모두 가능 - 검색 조건이 큰 보고서는 POST)
+   * @param options - 요청 옵션 + 기본 파일명
+   *
+   * @example
+   * const response = await apiClient.download(reportApi.exportMonthly({ year: 2024, month: 5 }));
+   * if (!response.success) {
+   *   toast.error(response.error?.message);
+   * }
+   */
+  download = async (apiSpec: ApiSpec, options?: DownloadOptions): Promise<ApiResponse<Blob>> => {
+    const { filename, ...requestOptions } = options ?? {};
+
+    // 바이너리 응답에는 transform/cache를 적용하지 않음
+    const response = await this.fetch<Blob>(
+      { ...apiSpec, responseType: 'blob', transform: undefined, cache: undefined, schema: undefined },
+      { ...requestOptions, responseType: 'blob' }
+    );
+
+    if (response.success && response.data) {
+      // handleResponse가 Content-Disposition 파일명을 File.name에 담아 반환
+      const resolvedName =
+        (response.data instanceof File && response.data.name) || filename || getFilenameFromURL(apiSpec.url);
+      saveBlob(response.data, resolvedName);
+    }
+
+    return response;
+  };
+
   /**
    * API 명세 객체를 받아서 실행
    *
@@ -164,51 +689,509 @@ export class ApiClient {
    * import { authApi } from '@/entities/auth/api';
    *
    * const result = await apiClient.fetch(authApi.login({ email, password }));
+   *
+   * // schema가 있으면 T를 생략해도 응답 타입이 추론됨
+   * const user = await apiClient.fetch({ method: 'GET', url: '/users/1', schema: userSchema });
+   * // user: ApiResponse<z.infer<typeof userSchema>>
+   */
+  fetch = async <T = any>(apiSpec: ApiSpec<any, T>, options?: RequestOptions): Promise<ApiResponse<T>> => {
+    // 1. cache 옵션이 있는 GET은 캐시를 거쳐 실행
+    let response =
+      apiSpec.method === 'GET' && apiSpec.cache && this.isCacheableResponseType(apiSpec.responseType)
+        ? await this.fetchWithCache<T>(apiSpec, options)
+        : await this.requestSpec<T>(apiSpec, options);
+
+    // 2. schema가 있으면 응답 형식 검증 (개발: 실패 처리, 운영: 경고만)
+    if (apiSpec.schema) {
+      response = validateResponse(
+        response,
+        apiSpec.schema,
+        API_CONFIG.SCHEMA_VALIDATION,
+        `${apiSpec.method} ${apiSpec.url}`,
+        (message, level) => this.tracer.event(response.requestId ?? null, message, level)
+      );
+    }
+
+    // 3. 변경 요청이 성공하면 관련 캐시 무효화
+    if (response.success && apiSpec.invalidates?.length) {
+      this.cache.invalidateTags(apiSpec.invalidates);
+    }
+
+    // 4. transform 함수가 있으면 적용
+    if (apiSpec.transform && response.data) {
+      response.data = apiSpec.transform(response.data);
+    }
+
+    return response;
+  };
+
+  /**
+   * 여러 API 명세를 한 번의 POST /batch로 실행
+   *
+   * 왜 필요한가?
+   * - 화면 로딩 시 필요한 작은 조회 여러 건을 요청 한 번으로 처리
+   * - 명세별 schema 검증, transform, 캐시, invalidates는 fetch()와 동일하게 적용
+   *
+   * 항목별 격리:
+   * - 한 명세가 실패해도 나머지 명세의 응답은 그대로 성공
+   * - 캐시 hit, 절대 URL, json이 아닌 응답 등 묶을 수 없는 명세는 각각 전송
+   *
+   * @param specs - API 명세 목록 (서비스가 다르면 서비스별로 묶음)
+   * @param options - 모든 명세에 적용할 옵션
+   * @returns 명세 순서대로의 응답 (명세별 응답 타입 유지)
+   *
+   * @example
+   * const [lines, shifts, user] = await apiClient.batch([
+   *   codeApi.list({ group: 'LINE' }),
+   *   codeApi.list({ group: 'SHIFT' }),
+   *   userApi.me(),
+   * ]);
+   * if (!shifts.success) toast.error(shifts.error?.message); // lines, user는 영향 없음
+   */
+  batch = <S extends readonly ApiSpec[] | []>(specs: S, options?: RequestOptions): Promise<BatchResponses<S>> => {
+    return Promise.all(specs.map((spec) => this.fetch(spec, { ...options, batch: true }))) as Promise<
+      BatchResponses<S>
+    >;
+  };
+
+  /**
+   * 여러 페이지를 이어서 순회 (async iterator)
+   *
+   * 왜 필요한가?
+   * - 전체 목록 처리(내보내기, 일괄 변경)를 화면마다 다음 페이지 반복문으로 구현하지 않도록
+   * - page/offset, cursor, Link 헤더 방식을 같은 for await 코드로 처리
+   *
+   * 각 페이지는 fetch()로 요청하므로 schema 검증, transform, 재시도, 인증 갱신이 그대로 적용됨
+   * 실패/취소 시 순회를 멈추고 paginator.failure에 실패 응답을 기록
+   *
+   * @param factory - 페이지 요청 정보(page, offset, limit, cursor) → API 명세
+   * @param options - 페이지 방식, 크기, 최대 페이지 수, 취소 signal 등
+   *
+   * @example
+   * // 항목 단위
+   * const paginator = apiClient.paginate(
+   *   (request) => workOrderApi.list({ page: request.page, limit: request.limit }),
+   *   { limit: 100, signal: controller.signal }
+   * );
+   * for await (const order of paginator) {
+   *   if (order.status === 'DONE') break; // 이후 페이지는 요청하지 않음
+   * }
+   * if (paginator.failure) toast.error(paginator.failure.error?.message);
+   *
+   * // 페이지 단위 (Link 헤더 방식)
+   * for await (const page of apiClient.paginate(() => eventApi.list(), { mode: 'link' }).pages()) {
+   *   console.log(page.index, page.items.length, page.response.headers?.link);
+   * }
+   */
+  paginate = <TResponse, TItem = PageItem<TResponse>>(
+    factory: (request: PageRequest) => ApiSpec<any, TResponse>,
+    options?: PaginateOptions<TResponse, TItem>
+  ): Paginator<TItem, TResponse> => {
+    return new Paginator<TItem, TResponse>(this.fetch, factory, options, (message) =>
+      this.tracer.event(null, message, 'warn')
+    );
+  };
+
+  /**
+   * 모든 페이지의 항목을 모아서 반환 (내보내기 등)
+   *
+   * page/offset 방식은 첫 페이지의 전체 건수로 나머지 페이지를 concurrency개씩 동시에 요청
+   * (cursor/link 방식, 전체 건수를 알 수 없는 경우는 순서대로 요청)
+   *
+   * @param factory - 페이지 요청 정보 → API 명세
+   * @param options - paginate() 옵션 + concurrency
+   * @returns 성공: 전체 항목, 실패: 처음 실패한 페이지의 응답
+   *
+   * @example
+   * const result = await apiClient.fetchAll(
+   *   (request) => workOrderApi.list({ ...filters, page: request.page, limit: 500 }),
+   *   { limit: 500, concurrency: 3 }
+   * );
+   * if (result.success) exportToExcel(result.data);
+   */
+  fetchAll = <TResponse, TItem = PageItem<TResponse>>(
+    factory: (request: PageRequest) => ApiSpec<any, TResponse>,
+    options?: PaginateOptions<TResponse, TItem>
+  ): Promise<ApiResponse<TItem[]>> => {
+    return this.paginate(factory, options).fetchAll();
+  };
+
+  /**
+   * GraphQL 작업 실행
+   *
+   * baseURL, 쿠키, 타임아웃, 재시도, 에러 분류는 다른 요청과 동일
+   * 응답의 data 필드만 반환하고, errors가 있으면 path별 에러를 담은 실패 응답 (api/graphql.ts)
+   *
+   * @param document - GraphQL 문서 또는 작업 정의 (persisted 해시 등)
+   * @param variables - 변수
+   * @param options - 요청 옵션 + 메서드/엔드포인트
+   *
+   * @example
+   * const response = await apiClient.graphql<{ workOrder: WorkOrder }, { id: string }>(
+   *   `query GetWorkOrder($id: ID!) { workOrder(id: $id) { id status } }`,
+   *   { id: 'WO-1' }
+   * );
+   * if (!response.success) {
+   *   console.log(response.error?.fieldErrors); // { 'workOrder.status': ['...'] }
+   * }
+   *
+   * // entities의 api.ts에서는 defineGraphQL로 선언하고 apiClient.fetch()로 실행
+   */
+  graphql = <TData = any, TVars = Record<string, unknown>>(
+    document: string | GraphQLOperation,
+    variables?: TVars,
+    options?: GraphQLRequestOptions
+  ): Promise<ApiResponse<TData>> => {
+    const { method = 'POST', url = API_CONFIG.GRAPHQL_URL, ...requestOptions } = options ?? {};
+
+    return this.fetch<TData>(
+      {
+        method,
+        url,
+        data: variables,
+        graphql: typeof document === 'string' ? { query: document } : document,
+      },
+      requestOptions
+    );
+  };
+
+  /**
+   * 스트리밍 응답 읽기 (Server-Sent Events, NDJSON)
+   *
+   * 왜 필요한가?
+   * - 장시간 작업의 진행률, 로그 tail처럼 끝나기 전부터 결과를 보여줘야 하는 응답
+   * - EventSource와 달리 POST, 서비스 헤더, 인터셉터(토큰 갱신, CSRF)를 그대로 사용
+   *
+   * 동작 방식:
+   * - 연결은 일반 요청과 같은 경로 (쿠키 credentials: 'include', 타임아웃은 응답 헤더 수신까지만)
+   * - 에러 시 Last-Event-ID와 함께 재연결 (SSE 기본값, api/stream.ts)
+   * - signal로 취소하면 연결을 끊고 onError 없이 abortReason 'cancelled'로 종료
+   *
+   * @param apiSpec - API 명세 (GET/POST 등)
+   * @param options - 이벤트/에러 콜백, 재연결 설정, 요청 옵션
+   * @returns 스트림이 끝나면 resolve (정상 종료: 성공, 그 외: 마지막 실패 응답)
+   *
+   * @example
+   * const controller = new AbortController();
+   * void apiClient.stream<JobProgress>(
+   *   { method: 'GET', url: `/jobs/${jobId}/events` },
+   *   {
+   *     signal: controller.signal,
+   *     onEvent: (event) => {
+   *       if (event.type === 'progress') setProgress(event.data.percent);
+   *       if (event.type === 'done') controller.abort();
+   *     },
+   *     onError: (error, { closed }) => closed && toast.error(error.message),
+   *   }
+   * );
    */
-  fetch = async <T>(apiSpec: ApiSpec, options?: RequestOptions): Promise<ApiResponse<T>> => {
-    let response: ApiResponse<T>;
+  stream = <T = unknown>(apiSpec: ApiSpec, options: StreamOptions<T>): Promise<ApiResponse<void>> => {
+    const {
+      onEvent,
+      onError,
+      onOpen,
+      format,
+      reconnect,
+      reconnectOnClose,
+      retryDelay,
+      maxReconnects,
+      lastEventId,
+      ...requestOptions
+    } = options;
+    const accept =
+      format === 'ndjson'
+        ? 'application/x-ndjson'
+        : format === 'sse'
+          ? 'text/event-stream'
+          : 'text/event-stream, application/x-ndjson';
+
+    // 재연결마다 Last-Event-ID만 바꿔서 같은 명세로 요청 (재시도는 재연결이 대신함)
+    const open: StreamOpener = (eventId) => {
+      const headers = new Headers(requestOptions.headers);
+      if (!headers.has('Accept')) {
+        headers.set('Accept', accept);
+      }
+      if (eventId) {
+        headers.set('Last-Event-ID', eventId);
+      }
+
+      return this.requestSpec<ReadableStream<Uint8Array> | null>(apiSpec, {
+        ...requestOptions,
+        headers,
+        responseType: 'stream',
+        retry: false,
+        dedupe: false,
+        batch: false,
+        cache: 'no-store',
+      });
+    };
+
+    return consumeStream<T>(
+      open,
+      { onEvent, onError, onOpen, format, reconnect, reconnectOnClose, retryDelay, maxReconnects, lastEventId },
+      requestOptions.signal,
+      this.handleError
+    );
+  };
+
+  /**
+   * 응답 캐시 무효화
+   *
+   * 언제 사용하는가?
+   * - ApiSpec.invalidates로 표현하기 어려운 시점에 수동으로 캐시 삭제
+   * - 로그아웃 시 전체 캐시 삭제 (ETag로 기억해 둔 응답 포함)
+   *
+   * @param tags - 무효화할 태그 (생략 시 전체 삭제)
+   *
+   * @example
+   * apiClient.invalidateCache(['code-table']);
+   * apiClient.invalidateCache(); // 전체 삭제
+   */
+  invalidateCache = (tags?: string[]): void => {
+    if (tags) {
+      this.cache.invalidateTags(tags);
+    } else {
+      this.cache.clear();
+      this.etags.clear();
+    }
+  };
+
+  /**
+   * 오프라인 큐 재전송
+   *
+   * 언제 호출되는가?
+   * - online 이벤트 발생 시 (자동)
+   * - 앱 시작 시 이전 접속에서 남은 요청이 있을 때 (EnvProvider)
+   * - 사용자가 Header의 대기 표시를 눌러 수동으로 재시도할 때
+   *
+   * 결과는 offlineQueue.onResult 구독자에게 전달
+   */
+  replayOfflineQueue = (): Promise<void> => {
+    return this.offlineQueue.replay((mutation) =>
+      this.request(mutation.url, mutation.method, mutation.data, {
+        headers: { ...mutation.headers, [IDEMPOTENCY_KEY_HEADER]: mutation.id },
+        meta: mutation.meta,
+        priority: 'low',
+        service: mutation.service,
+      })
+    );
+  };
+
+  /**
+   * API 명세의 메서드에 맞는 요청 실행
+   */
+  private requestSpec = async <T>(apiSpec: ApiSpec, requestOptions?: RequestOptions): Promise<ApiResponse<T>> => {
+    // 호출부 옵션이 명세의 responseType보다 우선
+    const options: RequestOptions = {
+      ...requestOptions,
+      responseType: requestOptions?.responseType ?? apiSpec.responseType,
+      service: requestOptions?.service ?? apiSpec.service,
+    };
+
+    if (apiSpec.graphql) {
+      return this.requestGraphQL<T>(apiSpec, apiSpec.graphql, options);
+    }
+
+    if (this.shouldBatch(apiSpec, options)) {
+      return this.enqueueBatch<T>(apiSpec, options);
+    }
 
     switch (apiSpec.method) {
       case 'GET':
-        response = await this.get<T>(apiSpec.url, apiSpec.data, options);
-        break;
+        return this.get<T>(apiSpec.url, apiSpec.data, options);
       case 'POST':
-        response = await this.post<T>(apiSpec.url, apiSpec.data, options);
-        break;
+        return this.post<T>(apiSpec.url, apiSpec.data, options);
       case 'PUT':
-        response = await this.put<T>(apiSpec.url, apiSpec.data, options);
-        break;
+        return this.put<T>(apiSpec.url, apiSpec.data, options);
       case 'DELETE':
-        response = await this.delete<T>(apiSpec.url, apiSpec.data, options);
-        break;
+        return this.delete<T>(apiSpec.url, apiSpec.data, options);
       case 'PATCH':
-        response = await this.patch<T>(apiSpec.url, apiSpec.data, options);
-        break;
+        return this.patch<T>(apiSpec.url, apiSpec.data, options);
       default:
         throw new Error(`Unsupported HTTP method: ${apiSpec.method}`);
     }
+  };
+
+  /**
+   * GraphQL 명세 실행 (일반 POST/GET 명세로 바꿔 requestSpec 경로 재사용)
+   *
+   * Persisted Query 흐름 (Apollo APQ):
+   * 1. 문서 대신 해시만 전송
+   * 2. PersistedQueryNotFound → 문서 + 해시를 한 번 더 전송 (서버에 등록)
+   * 3. PersistedQueryNotSupported → 이 엔드포인트는 이후 문서를 바로 전송
+   */
+  private requestGraphQL = async <T>(
+    apiSpec: ApiSpec,
+    operation: GraphQLOperation,
+    options: RequestOptions
+  ): Promise<ApiResponse<T>> => {
+    const endpoint = this.resolveURL(apiSpec.url, this.getBaseURL(options.service));
+    const send = (hash: string | null, includeQuery: boolean) =>
+      this.requestSpec<GraphQLResult<T>>(
+        {
+          ...apiSpec,
+          graphql: undefined,
+          data: buildGraphQLPayload(apiSpec.method, operation, apiSpec.data, hash, includeQuery),
+        },
+        options
+      );
+
+    const hash = await this.persistedQueries.getHash(operation, endpoint);
+    let response = await send(hash, !hash);
+
+    if (hash && hasPersistedQueryError(response, 'notSupported')) {
+      this.persistedQueries.markUnsupported(endpoint);
+      this.tracer.event(response.requestId ?? null, `Persisted queries not supported by ${endpoint}`, 'warn');
+      response = await send(null, true);
+    } else if (hash && hasPersistedQueryError(response, 'notFound')) {
+      response = await send(hash, true);
+    }
 
-    // transform 함수가 있으면 적용
-    if (apiSpec.transform && response.data) {
-      response.data = apiSpec.transform(response.data);
+    return toGraphQLResponse(response);
+  };
+
+  /**
+   * 일괄 전송 대상인지 확인
+   *
+   * 왜 일부 요청은 제외하는가?
+   * - 묶음 본문은 JSON이므로 FormData, 바이너리 응답(blob 등)을 담을 수 없음
+   * - 절대 URL은 다른 서버로 가는 요청이라 batch API가 대신 실행할 수 없음
+   * - 오프라인 큐 대상은 Idempotency-Key와 함께 개별 전송해야 함
+   */
+  private shouldBatch = (apiSpec: ApiSpec, options: RequestOptions): boolean => {
+    if (options.batch === false || (!options.batch && !this.batcher.isAutoBatched(apiSpec.method))) {
+      return false;
     }
 
+    return (
+      !apiSpec.url.startsWith('http') &&
+      (options.responseType ?? 'json') === 'json' &&
+      !(apiSpec.data instanceof FormData) &&
+      !options.onUploadProgress &&
+      !options.offline
+    );
+  };
+
+  /**
+   * 명세를 일괄 전송 대기열에 추가
+   *
+   * 왜 GET은 중복 제거를 거치는가?
+   * - 여러 컴포넌트가 같은 틱에 같은 조회를 요청하면 묶음 안에 같은 항목이 여러 번 담김
+   *
+   * 왜 중복 제거 키에 "batch"를 붙이는가?
+   * - 묶음이 1건뿐이면 원래 요청(get)으로 보내는데, 같은 키면 자기 자신을 기다리게 됨
+   */
+  private enqueueBatch = <T>(apiSpec: ApiSpec, options: RequestOptions): Promise<ApiResponse<T>> => {
+    const { method, data } = apiSpec;
+    const hasQuery = method === 'GET' || method === 'DELETE';
+    const url = hasQuery ? `${apiSpec.url}${this.buildQueryString(data, options.paramsSerializer)}` : apiSpec.url;
+    const service = options.service ?? DEFAULT_SERVICE;
+
+    const run = () =>
+      this.batcher.add(
+        service,
+        {
+          method,
+          url,
+          headers: options.headers ? Object.fromEntries(new Headers(options.headers)) : undefined,
+          body: hasQuery ? undefined : data,
+        },
+        () => this.requestSpec(apiSpec, { ...options, batch: false })
+      );
+
+    const pending =
+      method === 'GET' && options.dedupe !== false
+        ? this.deduper.run(`batch ${getDedupeKey(method, this.resolveURL(url, this.getBaseURL(service)))}`, run)
+        : run();
+
+    // 묶음은 다른 호출부와 공유하므로 호출부는 자신의 signal로 "대기"만 중단
+    return raceWithSignal(pending, options.signal, () => this.handleError(createAbortError())) as Promise<
+      ApiResponse<T>
+    >;
+  };
+
+  /**
+   * 묶음 요청 전송 (RequestBatcher가 호출)
+   *
+   * 왜 조회만 묶였으면 재시도를 허용하는가?
+   * - POST지만 실제 작업은 멱등인 GET이므로 일반 GET과 같은 재시도 정책 적용
+   */
+  private sendBatch: BatchSender = (service, url, body, items) => {
+    this.tracer.event(null, `Batched ${items.length} requests → POST ${url} (${service})`);
+
+    const idempotent = items.every((item) => item.method === 'GET');
+    return this.post(url, body, {
+      service,
+      retry: idempotent ? { allowNonIdempotent: true } : undefined,
+    });
+  };
+
+  /**
+   * 캐시 가능한 응답 타입인지 확인
+   *
+   * 왜 blob/arrayBuffer/stream은 제외하는가?
+   * - stream은 한 번만 읽을 수 있어 공유 불가
+   * - 바이너리는 LocalStorage(JSON)에 저장할 수 없고 메모리 사용량도 큼
+   */
+  private isCacheableResponseType = (responseType: ApiResponseType = 'json'): boolean => {
+    return responseType === 'json' || responseType === 'text';
+  };
+
+  /**
+   * 캐시를 거쳐 GET 명세 실행
+   *
+   * 처리 방식:
+   * - fresh 캐시: 네트워크 요청 없이 반환
+   * - stale 캐시: 즉시 반환하고 백그라운드에서 갱신 (stale-while-revalidate)
+   * - 캐시 없음: 네트워크 요청 후 성공 응답 저장
+   *
+   * 왜 transform 전에 캐시하는가?
+   * - transform은 fetch()에서 매번 적용되므로 원본 응답을 저장해야 중복 변환 없음
+   */
+  private fetchWithCache = async <T>(apiSpec: ApiSpec, options?: RequestOptions): Promise<ApiResponse<T>> => {
+    const cacheOptions = apiSpec.cache!;
+    const baseURL = this.getBaseURL(options?.service ?? apiSpec.service);
+    // GraphQL은 엔드포인트가 같으므로 문서까지 키에 포함
+    const params = apiSpec.graphql ? buildGraphQLPayload('GET', apiSpec.graphql, apiSpec.data) : apiSpec.data;
+    const key = `${apiSpec.method} ${this.resolveURL(apiSpec.url, baseURL)}${this.buildQueryString(params)}`;
+
+    const hit = this.cache.get(key);
+    if (hit) {
+      if (hit.stale) {
+        // 백그라운드 갱신은 호출부의 취소와 무관하게 진행
+        const { signal: _signal, ...revalidateOptions } = options ?? {};
+        void this.requestSpec(apiSpec, { ...revalidateOptions, priority: 'low' }).then((fresh) =>
+          this.cache.set(key, fresh, cacheOptions)
+        );
+      }
+      return hit.response as ApiResponse<T>;
+    }
+
+    const response = await this.requestSpec<T>(apiSpec, options);
+    this.cache.set(key, response, cacheOptions);
     return response;
   };
 
+  /**
+   * 상대 경로에 baseURL 결합 (절대 URL은 그대로 사용)
+   */
+  private resolveURL = (url: string, baseURL: string = this.getBaseURL()): string => {
+    return url.startsWith('http') ? url : `${baseURL}${url}`;
+  };
+
   /**
    * Query String 생성
    *
    * 왜 필요한가?
    * - GET/DELETE 요청 시 data를 query string으로 자동 변환
-   * - URLSearchParams를 사용하여 자동 인코딩
+   * - 배열/중첩 객체/Date/필터 조건은 querySerializer 설정에 따라 변환 (api/query.ts)
    * - undefined, null 값은 자동으로 제외
    *
    * @example
    * buildQueryString({ page: 1, limit: 10, search: 'test' })
    * // => "?page=1&limit=10&search=test"
    */
-  private buildQueryString = (data?: unknown): string => {
+  private buildQueryString = (data?: unknown, serializer: QuerySerializer = this.querySerializer): string => {
     if (!data || typeof data !== 'object' || Array.isArray(data)) {
       return '';
     }
@@ -218,16 +1201,8 @@ export class ApiClient {
       return '';
     }
 
-    const searchParams = new URLSearchParams();
-
-    Object.entries(params).forEach(([key, value]) => {
-      // undefined, null 값은 제외
-      if (value !== undefined && value !== null) {
-        searchParams.append(key, String(value));
-      }
-    });
-
-    const queryString = searchParams.toString();
+    // undefined, null 값 제외 및 배열/객체/Date 변환은 serializer가 담당
+    const queryString = serializer(params);
     return queryString ? `?${queryString}` : '';
   };
 
@@ -242,6 +1217,13 @@ export class ApiClient {
    * data 처리 방식:
    * - GET, DELETE: data를 query string으로 변환 (?key=value)
    * - POST, PUT, PATCH: data를 request body로 전송 (JSON)
+   *
+   * 동시 GET 중복 제거:
+   * - 같은 URL의 GET이 진행 중이면 새로 요청하지 않고 결과를 공유
+   * - options.dedupe = false로 끌 수 있음
+   *
+   * 오프라인 큐:
+   * - options.offline이면 오프라인 중 변경 요청을 큐에 보관 (연결 복구 시 재전송)
    */
   private request = async <T>(
     url: string,
@@ -252,47 +1234,371 @@ export class ApiClient {
     // 1. GET/DELETE는 data를 query string으로 변환
     let finalURL = url;
     if ((method === 'GET' || method === 'DELETE') && data) {
-      const queryString = this.buildQueryString(data);
+      const queryString = this.buildQueryString(data, options?.paramsSerializer);
       finalURL = `${url}${queryString}`;
     }
 
-    const fullURL = finalURL.startsWith('http') ? finalURL : `${this.baseURL}${finalURL}`;
-    const timeout = options?.timeout || this.defaultTimeout;
+    const {
+      timeout,
+      retry,
+      meta,
+      dedupe,
+      onUploadProgress,
+      responseType = 'json',
+      paramsSerializer: _paramsSerializer,
+      offline,
+      service,
+      batch: _batch,
+      conditional,
+      ifMatch,
+      headers,
+      body: _body,
+      method: _method,
+      ...init
+    } = options ?? {};
 
-    try {
-      // 2. 요청 헤더 설정
-      const headers = this.buildHeaders();
-
-      // 3. 요청 옵션 구성
-      const requestOptions: RequestInit = {
-        method,
-        headers,
+    // 2. 요청 정보 구성 (헤더 우선순위: 호출부 > 서비스 > 기본)
+    const serviceConfig = this.services.get(service);
+    const request: ApiRequest = {
+      id: createRequestId(),
+      url: this.resolveURL(finalURL, serviceConfig.baseURL),
+      method,
+      headers: this.buildHeaders(serviceConfig.headers, headers),
+      data: method === 'GET' || method === 'DELETE' ? undefined : data,
+      init: {
         credentials: 'include', // 쿠키 포함 (cross-origin 포함)
-        ...options,
-      };
+        ...init,
+      },
+      timeout: timeout || serviceConfig.timeout || this.defaultTimeout,
+      retry: resolveRetryPolicy(method, retry),
+      responseType,
+      meta: meta ?? {},
+      onUploadProgress,
+    };
+
+    // 백엔드 로그와 연결하기 위한 요청 ID
+    request.headers.set(REQUEST_ID_HEADER, request.id);
+
+    // FormData는 브라우저가 boundary를 포함한 Content-Type을 직접 설정해야 함
+    if (data instanceof FormData) {
+      request.headers.delete('Content-Type');
+    }
+
+    // 조건부 요청 (GET: 바뀌지 않았으면 304, 변경: 그 사이 수정되었으면 412)
+    if (method === 'GET' && conditional !== false && this.isCacheableResponseType(responseType)) {
+      this.etags.applyConditionalHeaders(request.url, request.headers);
+    } else if (method !== 'GET' && ifMatch) {
+      this.applyIfMatch(request, ifMatch);
+    }
 
-      // 4. POST/PUT/PATCH는 data를 body로 추가
-      if (data && method !== 'GET' && method !== 'DELETE') {
-        requestOptions.body = JSON.stringify(data);
+    // 3. 오프라인 큐 대상 변경 요청
+    if (offline && method !== 'GET' && !(data instanceof FormData)) {
+      if (!request.headers.has(IDEMPOTENCY_KEY_HEADER)) {
+        request.headers.set(IDEMPOTENCY_KEY_HEADER, createRequestId());
       }
 
-      // 5. 타임아웃 처리
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), timeout);
-      requestOptions.signal = controller.signal;
+      if (isOffline()) {
+        return this.enqueueOffline<T>(finalURL, request, headers, service);
+      }
 
-      // 6. 요청 실행
-      const response = await fetch(fullURL, requestOptions);
-      clearTimeout(timeoutId);
+      // 전송 중에 연결이 끊긴 경우에도 큐에 보관 (같은 키로 재전송하므로 중복 처리 없음)
+      const response = await this.dispatch(request);
+      if (response.statusCode === 0 && !response.abortReason && isOffline()) {
+        return this.enqueueOffline<T>(finalURL, request, headers, service);
+      }
+      return response as ApiResponse<T>;
+    }
+
+    // 4. 동시 GET 요청 중복 제거
+    // stream은 한 번만 읽을 수 있으므로 공유하지 않음
+    if (method === 'GET' && dedupe !== false && responseType !== 'stream') {
+      // 공유 요청은 특정 호출부의 signal에 묶이지 않도록 제거하고,
+      // 호출부는 자신의 signal로 "대기"만 중단
+      const { signal, ...sharedInit } = request.init;
+      const shared = this.deduper.run(getDedupeKey(method, request.url, responseType), () =>
+        this.dispatch({ ...request, init: sharedInit })
+      );
+
+      return raceWithSignal(shared, signal, () =>
+        this.handleError(createAbortError(), request.id)
+      ) as Promise<ApiResponse<T>>;
+    }
+
+    return (await this.dispatch(request)) as ApiResponse<T>;
+  };
 
-      // 7. 응답 처리
-      return await this.handleResponse<T>(response);
+  /**
+   * If-Match 헤더 추가
+   *
+   * 왜 ETag가 없으면 경고만 하는가?
+   * - 상세 조회 없이 저장하는 화면도 있으므로 요청은 그대로 전송
+   * - If-Match가 필수인 서버는 428로 응답하므로 추적 기록에서 원인을 바로 확인 가능
+   */
+  private applyIfMatch = (request: ApiRequest, ifMatch: string | true): void => {
+    const etag = ifMatch === true ? this.etags.getETag(request.url) : ifMatch;
+    if (etag) {
+      request.headers.set('If-Match', etag);
+    } else {
+      this.tracer.event(request.id, `No ETag remembered for ${request.url}, sending without If-Match`, 'warn');
+    }
+  };
+
+  /**
+   * 변경 요청을 오프라인 큐에 보관하고 실패 응답 반환
+   *
+   * 왜 실패 응답인가?
+   * - 서버 처리 결과가 아직 없으므로 data를 줄 수 없음
+   * - 호출부는 queuedId로 "보관됨"을 구분하여 입력값을 유지하고 안내
+   */
+  private enqueueOffline = <T>(
+    url: string,
+    request: ApiRequest,
+    headers?: HeadersInit,
+    service?: ApiServiceName
+  ): ApiResponse<T> => {
+    const mutation = this.offlineQueue.enqueue({
+      id: request.headers.get(IDEMPOTENCY_KEY_HEADER)!,
+      method: request.method as QueuedMutation['method'],
+      url,
+      service,
+      data: request.data,
+      headers: headers ? Object.fromEntries(new Headers(headers)) : undefined,
+      meta: request.meta,
+    });
+
+    this.tracer.event(null, `Queued offline: ${mutation.method} ${url} [${mutation.id}]`, 'warn');
+
+    return {
+      success: false,
+      error: createAppError('NETWORK_ERROR', {
+        message: '오프라인 상태입니다. 연결되면 자동으로 전송됩니다',
+        statusCode: 0,
+      }),
+      statusCode: 0,
+      timestamp: new Date().toISOString(),
+      queuedId: mutation.id,
+    };
+  };
+
+  /**
+   * 인터셉터를 거쳐 요청 실행
+   *
+   * 처리 순서:
+   * - 요청 인터셉터 → 네트워크 요청(재시도 포함) → 응답 인터셉터
+   */
+  private dispatch = async (initialRequest: ApiRequest): Promise<ApiResponse<unknown>> => {
+    let request = initialRequest;
+
+    // 1. 요청 인터셉터 실행 (ApiResponse 반환 시 네트워크 요청 생략)
+    let response: ApiResponse<unknown> | null = null;
+    for (const { fulfilled } of this.interceptors.request.getHandlers()) {
+      if (!fulfilled) continue;
+
+      const result = await fulfilled(request);
+      if (isApiResponse(result)) {
+        response = result;
+        break;
+      }
+      request = result;
+    }
+
+    // 2. 요청 실행 (재시도 포함) - 인터셉터가 수정한 최종 요청 기준으로 추적
+    this.tracer.start(request.id, request.method, request.url, request.data);
+    if (!response) {
+      response = await this.execute(request);
+    }
+
+    // 3. 응답 인터셉터 실행 (성공 → fulfilled, 실패 → rejected)
+    const finalRequest = request;
+    const context = {
+      request: finalRequest,
+      replay: () => this.execute(finalRequest),
+    };
+
+    for (const { fulfilled, rejected } of this.interceptors.response.getHandlers()) {
+      const handler = response.success ? fulfilled : rejected;
+      if (handler) {
+        response = await handler(response, context);
+      }
+    }
+
+    // 4. 추적 완료 + 요청 ID 노출
+    this.tracer.finish(request.id, response);
+    return { ...response, requestId: request.id };
+  };
+
+  /**
+   * 요청 전송 및 응답 처리 (재시도 포함)
+   *
+   * 재시도 방식:
+   * - 네트워크 에러, 타임아웃, 502/503/504 응답 시 지수 백오프로 재시도
+   * - POST/PATCH는 options.retry로 명시적으로 허용한 경우에만 재시도
+   *
+   * 재예약 (Retry-After):
+   * - 429/503 응답은 Retry-After 시간만큼 호스트 전송을 멈추고 다시 예약
+   * - 서버가 요청을 처리하지 않았다고 알린 것이므로 메서드와 재시도 횟수에 관계없이 적용
+   */
+  private execute = async <T>(request: ApiRequest): Promise<ApiResponse<T>> => {
+    const { url, method, retry: retryPolicy } = request;
+    let attempt = 0;
+    let rescheduled = 0;
+
+    for (;;) {
+      const canRetry = attempt < retryPolicy.count;
+
+      try {
+        // 1. 요청 실행 (동시 요청/속도 제한 대기 + 타임아웃 포함)
+        const response = await this.send(request);
+
+        // 2. 서버가 요청 제한을 알리면 지정 시간 후 다시 예약
+        const retryAfter = this.getRetryAfterDelay(response, rescheduled);
+        if (retryAfter !== null) {
+          rescheduled++;
+          void response.body?.cancel().catch(() => undefined);
+          this.scheduler.pause(url, retryAfter);
+          this.tracer.event(request.id, `Rescheduled in ${retryAfter}ms (${method} ${url} → ${response.status})`, 'warn');
+          continue;
+        }
+
+        // 3. 일시적 장애 응답이면 대기 후 재시도
+        if (canRetry && isRetryableStatus(response.status, retryPolicy)) {
+          await this.waitForRetry(attempt, request, `${method} ${url} → ${response.status}`);
+          attempt++;
+          continue;
+        }
+
+        // 4. 응답 처리
+        return await this.handleResponse<T>(response, request);
+      } catch (error) {
+        // 5. 네트워크 에러/타임아웃이면 대기 후 재시도
+        if (canRetry && isRetryableError(error)) {
+          await this.waitForRetry(attempt, request, `${method} ${url} → ${(error as Error).name}`);
+          attempt++;
+          continue;
+        }
+
+        // 6. 에러 처리
+        return this.handleError<T>(error, request.id);
+      }
+    }
+  };
+
+  /**
+   * 429/503 응답의 재예약 대기 시간 계산
+   *
+   * - Retry-After가 있으면 그 시간 (초 또는 HTTP 날짜)
+   * - 429인데 Retry-After가 없으면 지수 백오프
+   * - 503인데 Retry-After가 없으면 null → 일반 재시도 정책으로 처리
+   *
+   * @returns 대기 시간 (밀리초), 재예약하지 않으면 null
+   */
+  private getRetryAfterDelay = (response: Response, rescheduled: number): number | null => {
+    const { status } = response;
+    if (status !== HTTP_STATUS.TOO_MANY_REQUESTS && status !== HTTP_STATUS.SERVICE_UNAVAILABLE) {
+      return null;
+    }
+    if (rescheduled >= API_CONFIG.RETRY_AFTER_MAX_COUNT) {
+      return null;
+    }
+
+    const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+    const delay =
+      retryAfter ??
+      (status === HTTP_STATUS.TOO_MANY_REQUESTS
+        ? Math.min(API_CONFIG.RETRY_MAX_DELAY, API_CONFIG.RETRY_DELAY * 2 ** rescheduled)
+        : null);
+
+    // 너무 오래 기다려야 하면 사용자가 멈춘 화면을 보지 않도록 실패 응답으로 반환
+    if (delay === null || delay > API_CONFIG.RETRY_AFTER_MAX_DELAY) {
+      return null;
+    }
+    return delay;
+  };
+
+  /**
+   * 단일 fetch 실행 (타임아웃 + 호출부 취소 처리)
+   *
+   * 왜 분리했는가?
+   * - 재시도 시 매 시도마다 새로운 타임아웃 컨트롤러가 필요
+   * - AbortController는 한 번 abort되면 재사용 불가
+   *
+   * 왜 signal을 합치는가?
+   * - 호출부의 signal(검색어 입력 중 이전 요청 취소 등)과 타임아웃을 모두 반영
+   * - 중단 원인에 따라 AbortError(취소) / TimeoutError(타임아웃)로 구분하여 던짐
+   *
+   * 왜 슬롯 대기를 타임아웃 밖에서 하는가?
+   * - 일괄 처리 화면에서 대기열이 길어도 실제 전송 전에 타임아웃되지 않도록
+   */
+  private send = async (request: ApiRequest): Promise<Response> => {
+    // 동시 요청/속도 제한 슬롯 대기 (대기 시간은 타임아웃에 포함하지 않음)
+    const release = await this.scheduler.acquire(request.url, request.init.priority, request.init.signal);
+    const { signal, timedOut, cleanup, clearTimer } = combineWithTimeout(request.init.signal, request.timeout);
+
+    const init: RequestInit = {
+      ...request.init,
+      method: request.method,
+      headers: request.headers,
+      body: this.serializeBody(request.data),
+      signal,
+    };
+
+    // stream 본문을 읽기 시작했는지 (본문이 끝날 때 cleanup)
+    let streaming = false;
+
+    try {
+      // 전송 계층에 위임 (기본: fetch, 업로드 진행률이 필요하면 XHR)
+      const response = await this.transport(request.url, init, request);
+      if (request.responseType !== 'stream') {
+        return response;
+      }
+
+      streaming = true;
+      return onStreamEnd(response, cleanup);
     } catch (error) {
-      // 8. 에러 처리
-      return this.handleError<T>(error);
+      if (signal.aborted) {
+        throw timedOut() ? createTimeoutError() : createAbortError();
+      }
+      throw error;
+    } finally {
+      // 슬롯은 응답 헤더 수신 시점에 반환 (stream 본문을 읽는 동안 다른 요청을 막지 않도록)
+      release();
+
+      // stream은 본문을 읽는 동안에도 호출부 취소가 전달되어야 함 (타임아웃은 헤더 수신까지만)
+      // 호출부 signal 리스너는 본문이 끝날 때 해제 (onStreamEnd)
+      if (streaming) {
+        clearTimer();
+      } else {
+        cleanup();
+      }
     }
   };
 
+  /**
+   * 요청 body 직렬화
+   *
+   * - FormData: 그대로 전송 (multipart/form-data)
+   * - 그 외: JSON 문자열
+   */
+  private serializeBody = (data: unknown): BodyInit | undefined => {
+    if (!data) {
+      return undefined;
+    }
+
+    return data instanceof FormData ? data : JSON.stringify(data);
+  };
+
+  /**
+   * 재시도 대기 (지수 백오프 + 지터)
+   *
+   * 호출부가 대기 중에 취소하면 즉시 깨어나고,
+   * 다음 send()가 AbortError를 던져 재시도 없이 종료됨
+   */
+  private waitForRetry = async (attempt: number, request: ApiRequest, reason: string): Promise<void> => {
+    const delay = getRetryDelay(attempt, request.retry);
+    this.tracer.event(request.id, `Retry ${attempt + 1}/${request.retry.count} in ${delay}ms (${reason})`, 'warn');
+    await wait(delay, request.init.signal);
+  };
+
   /**
    * 요청 헤더 생성
    *
@@ -301,96 +1607,163 @@ export class ApiClient {
    * - 서버에서 httpOnly 쿠키로 토큰 관리
    * - 쿠키는 브라우저가 자동으로 전송
    * - XSS 공격 방어 (JavaScript에서 토큰 접근 불가)
+   *
+   * 왜 Headers 객체를 반환하는가?
+   * - 인터셉터에서 set/delete로 헤더를 쉽게 수정
+   * - 서비스 헤더(ApiServiceConfig.headers), 호출부 헤더(options.headers) 순으로 기본 헤더 위에 병합
    */
-  private buildHeaders = (): HeadersInit => {
-    return {
+  private buildHeaders = (...overrides: (HeadersInit | undefined)[]): Headers => {
+    const headers = new Headers({
       'Content-Type': 'application/json',
       'Accept': 'application/json',
-    };
+    });
+
+    overrides.forEach((override) => {
+      new Headers(override).forEach((value, key) => headers.set(key, value));
+    });
+
+    return headers;
   };
 
   /**
    * 응답 처리
+   *
+   * ETag:
+   * - 304: 기억해 둔 응답 본문으로 성공 응답 반환
+   * - 성공 응답: ETag/Last-Modified 기억 (GET은 본문 포함, 변경 요청은 If-Match용 ETag만)
    */
-  private handleResponse = async <T>(response: Response): Promise<ApiResponse<T>> => {
+  private handleResponse = async <T>(response: Response, request: ApiRequest): Promise<ApiResponse<T>> => {
+    const { method, url, responseType } = request;
     const timestamp = new Date().toISOString();
+    const headers = Object.fromEntries(response.headers);
 
-    // 응답 바디 파싱
-    let data: any;
-    try {
-      data = await response.json();
-    } catch {
-      // JSON 파싱 실패 시 (204 No Content 등)
-      data = null;
+    // 304 Not Modified - 호출부가 직접 If-None-Match를 지정한 경우 등 기억해 둔 본문이 없으면 data 없이 성공
+    if (response.status === HTTP_STATUS.NOT_MODIFIED) {
+      const notModified = this.etags.resolveNotModified(url, headers);
+      this.tracer.event(request.id, notModified ? 'Not modified, using remembered response' : 'Not modified');
+      return (notModified ?? { success: true, statusCode: response.status, timestamp, headers }) as ApiResponse<T>;
     }
 
-    // 성공 응답 (2xx)
+    // 성공 응답 (2xx) - responseType에 따라 본문 파싱
     if (response.ok) {
-      return {
+      const result: ApiResponse<T> = {
         success: true,
-        data: data as T,
+        data: (await this.parseBody(response, responseType)) as T,
         statusCode: response.status,
         timestamp,
+        headers,
       };
+
+      if (method !== 'GET') {
+        this.etags.remember(url, result, false);
+      } else if (this.isCacheableResponseType(responseType)) {
+        this.etags.remember(url, result, true);
+      }
+      return result;
     }
 
-    // 실패 응답
+    // 실패 응답 - 서버 에러는 responseType과 관계없이 JSON 메시지로 옴
+    const data = await this.parseBody(response, 'json');
     return {
       success: false,
-      error: data?.message || data?.error || response.statusText,
+      error: createHttpError(response.status, data, response.statusText),
       statusCode: response.status,
       timestamp,
+      headers,
     };
   };
 
+  /**
+   * 응답 본문 파싱
+   *
+   * 왜 blob은 File로 감싸는가?
+   * - Content-Disposition 파일명을 별도 필드 없이 전달 (File은 Blob의 하위 타입)
+   * - download()와 직접 저장하는 호출부 모두 file.name으로 사용 가능
+   *
+   * @returns 파싱된 본문 (JSON 파싱 실패 시 null - 204 No Content 등)
+   */
+  private parseBody = async (response: Response, responseType: ApiResponseType): Promise<any> => {
+    try {
+      switch (responseType) {
+        case 'text':
+          return await response.text();
+        case 'blob': {
+          const blob = await response.blob();
+          const filename = parseContentDispositionFilename(response.headers.get('Content-Disposition'));
+          return filename ? new File([blob], filename, { type: blob.type }) : blob;
+        }
+        case 'arrayBuffer':
+          return await response.arrayBuffer();
+        case 'stream':
+          return response.body;
+        default:
+          return await response.json();
+      }
+    } catch {
+      return null;
+    }
+  };
+
   /**
    * 에러 처리
    *
    * 왜 별도 메서드로 분리했는가?
    * - 일관된 에러 응답 형식
    * - 네트워크 에러, 타임아웃 등 다양한 에러 처리
+   *
+   * 취소 vs 타임아웃:
+   * - abortReason으로 구분하여 UI에서 취소는 조용히 무시할 수 있음
    */
-  private handleError = <T>(error: unknown): ApiResponse<T> => {
-    console.error('[ApiClient] Error:', error);
-
-    let errorMessage = '알 수 없는 오류가 발생했습니다';
+  private handleError = <T>(error: unknown, requestId?: string): ApiResponse<T> => {
+    // 응답을 받지 못한 경우이므로 모두 NETWORK_ERROR (statusCode 0)
+    let errorMessage: string | undefined;
+    let abortReason: ApiResponse<T>['abortReason'];
 
     if (error instanceof Error) {
-      if (error.name === 'AbortError') {
+      if (error.name === 'TimeoutError') {
         errorMessage = '요청 시간이 초과되었습니다';
-      } else {
-        errorMessage = error.message;
+        abortReason = 'timeout';
+      } else if (error.name === 'AbortError') {
+        errorMessage = '요청이 취소되었습니다';
+        abortReason = 'cancelled';
       }
     }
 
+    // 호출부가 직접 취소한 요청은 에러가 아니므로 로그만 남김
+    if (abortReason === 'cancelled') {
+      this.tracer.event(requestId ?? null, 'Request cancelled');
+    } else {
+      const detail = error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+      this.tracer.event(requestId ?? null, `Error: ${detail}`, 'error');
+    }
+
     return {
       success: false,
-      error: errorMessage,
+      // "Failed to fetch" 같은 원문은 사용자에게 의미가 없으므로 details에만 보관
+      error: createAppError('NETWORK_ERROR', { message: errorMessage, statusCode: 0, details: error }),
       statusCode: 0,
       timestamp: new Date().toISOString(),
+      abortReason,
     };
   };
 }
 
 /**
- * baseURL을 지정하여 새로운 API 클라이언트 인스턴스 생성
+ * 서비스(백엔드)별 API 클라이언트 가져오기
  *
- * 왜 필요한가?
- * - Store에서 EnvContext의 baseURL을 사용하기 위함
- * - 런타임에 다른 baseURL로 요청해야 할 때 사용
+ * 왜 새 인스턴스를 만들지 않는가?
+ * - 별도 인스턴스는 인터셉터(토큰 갱신, CSRF), 재시도, 속도 제한, 추적 기록을 공유하지 못함
+ * - 서비스 설정(baseURL, 타임아웃, 헤더)은 EnvConfig.API_SERVICES로 등록
  *
- * @param baseURL - API 기본 URL
- * @returns ApiClient 인스턴스
+ * @param service - 서비스 이름
+ * @returns 해당 서비스로 요청을 보내는 클라이언트
  *
  * @example
- * // Store에서 사용
- * const client = createApiClient(baseURL);
- * const result = await client.get('/api/user/me');
+ * const reportClient = createApiClient('reporting');
+ * const result = await reportClient.get('/monthly', { year: 2024 });
  */
-export const createApiClient = (baseURL: string): ApiClient => {
-  const instance = new (ApiClient as any)(baseURL); // Singleton 우회하여 새 인스턴스 생성
-  (instance as any).baseURL = baseURL;
-  return instance;
+export const createApiClient = (service: ApiServiceName): ServiceClient => {
+  return ApiClient.getInstance().service(service);
 };
 
 /**
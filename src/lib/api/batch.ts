@@ -0,0 +1,296 @@
+/**
+ * 요청 일괄 전송 (Batch)
+ *
+ * 왜 필요한가?
+ * - 대시보드/상세 화면은 로딩 시 코드 테이블, 설비 상태 등 작은 조회를 20건 이상 보냄
+ * - 요청마다 연결/헤더/인증 비용이 들고, 호스트별 동시 요청 제한에 밀려 화면이 늦게 채워짐
+ * - 같은 틱에 발생한 요청을 POST /batch 한 번으로 묶고, 응답을 다시 나눠 각 호출부에 전달
+ *
+ * 동작 방식:
+ * 1. apiClient.batch([...]) 또는 자동 묶음(auto) 대상 fetch()가 항목을 대기열에 추가
+ * 2. delay(기본값: 0 → 같은 틱) 후 서비스별로 모아 maxSize개씩 묶어 전송
+ * 3. 응답 본문을 envelope.decode로 나눠 항목 ID별로 ApiResponse 생성
+ *
+ * 항목별 격리:
+ * - 한 항목의 404/422는 그 항목만 실패 응답 (나머지는 성공 응답)
+ * - 묶음 요청 자체가 실패하면(네트워크 에러, 5xx) 모든 항목이 같은 실패 응답
+ * - 묶음이 1건뿐이면 envelope 없이 원래 요청으로 전송
+ *
+ * 주의:
+ * - 인터셉터(토큰 갱신, CSRF 등)는 묶음 요청 자체에만 적용되고 항목 응답에는 적용되지 않음
+ */
+
+import type { ApiResponse, ApiServiceName, HttpMethod } from '../types';
+import { createAppError, createHttpError } from './errors';
+import { API_CONFIG } from '../constants';
+
+/**
+ * 묶음에 담기는 개별 요청
+ */
+export interface BatchItemRequest {
+  /** 항목 ID (응답과 요청을 연결) */
+  id: string;
+  /** HTTP 메서드 */
+  method: HttpMethod;
+  /** 서비스 baseURL 기준 경로 (GET/DELETE는 query string 포함) */
+  url: string;
+  /** 호출부가 지정한 헤더 */
+  headers?: Record<string, string>;
+  /** 요청 본문 (POST/PUT/PATCH) */
+  body?: unknown;
+}
+
+/**
+ * 묶음 응답에 담긴 개별 응답
+ */
+export interface BatchItemResponse {
+  /** 항목 ID (BatchItemRequest.id) */
+  id: string;
+  /** HTTP 상태 코드 */
+  status: number;
+  /** 응답 헤더 */
+  headers?: Record<string, string>;
+  /** 응답 본문 */
+  body?: unknown;
+}
+
+/**
+ * 묶음 요청/응답 본문 형식
+ *
+ * 왜 교체 가능하게 했는가?
+ * - 백엔드마다 batch API 형식이 다름 (Spring, OData $batch, 자체 구현 등)
+ * - 형식만 바꾸면 대기열/분배/항목별 격리 로직은 그대로 사용
+ */
+export interface BatchEnvelope {
+  /** 개별 요청 목록 → 요청 본문 */
+  encode: (items: BatchItemRequest[]) => unknown;
+  /** 응답 본문 → 개별 응답 목록 (형식이 맞지 않으면 null) */
+  decode: (body: unknown) => BatchItemResponse[] | null;
+}
+
+/**
+ * 기본 형식
+ *
+ * @example
+ * // 요청: { "requests": [{ "id": "0", "method": "GET", "url": "/codes?group=LINE" }, ...] }
+ * // 응답: { "responses": [{ "id": "0", "status": 200, "body": [...] }, ...] }
+ */
+export const defaultBatchEnvelope: BatchEnvelope = {
+  encode: (items) => ({ requests: items }),
+  decode: (body) => {
+    const responses = Array.isArray(body) ? body : (body as { responses?: unknown } | null)?.responses;
+    return Array.isArray(responses) ? (responses as BatchItemResponse[]) : null;
+  },
+};
+
+/**
+ * 일괄 전송 설정
+ */
+export interface BatchOptions {
+  /**
+   * 자동 묶음 사용 여부 (기본값: false)
+   *
+   * true면 apiClient.fetch()의 대상 요청(methods)이 호출부 수정 없이 자동으로 묶임
+   */
+  auto?: boolean;
+  /** batch API 경로 (서비스 baseURL 기준, 기본값: API_CONFIG.BATCH_URL) */
+  url?: string;
+  /** 요청/응답 본문 형식 (기본값: defaultBatchEnvelope) */
+  envelope?: BatchEnvelope;
+  /** 한 번에 묶을 최대 항목 수 (기본값: API_CONFIG.BATCH_MAX_SIZE) */
+  maxSize?: number;
+  /** 항목을 모으는 시간 (밀리초, 기본값: API_CONFIG.BATCH_DELAY - 0이면 같은 틱) */
+  delay?: number;
+  /**
+   * 자동 묶음 대상 메서드 (기본값: ['GET'])
+   *
+   * 왜 GET만 기본인가?
+   * - 변경 요청은 묶음 안의 실행 순서/부분 실패 처리를 백엔드와 맞춰야 함
+   * - apiClient.batch()로 명시적으로 묶으면 메서드에 관계없이 전송
+   */
+  methods?: HttpMethod[];
+}
+
+/**
+ * 묶음 요청을 실제로 전송하는 함수 (ApiClient가 주입)
+ *
+ * @param service - 서비스 이름
+ * @param url - batch API 경로
+ * @param body - envelope.encode 결과
+ * @param items - 묶인 요청 목록 (재시도 허용 판단 등)
+ */
+export type BatchSender = (
+  service: ApiServiceName,
+  url: string,
+  body: unknown,
+  items: BatchItemRequest[]
+) => Promise<ApiResponse<unknown>>;
+
+/**
+ * 대기 중인 항목
+ */
+interface PendingItem {
+  request: Omit<BatchItemRequest, 'id'>;
+  /** 묶지 않고 원래 요청으로 보내는 함수 (묶음이 1건뿐일 때) */
+  fallback: () => Promise<ApiResponse<unknown>>;
+  resolve: (response: ApiResponse<unknown>) => void;
+}
+
+/**
+ * 개별 응답 → ApiResponse
+ */
+const toApiResponse = (item: BatchItemResponse, requestId?: string): ApiResponse<unknown> => {
+  const timestamp = new Date().toISOString();
+  // ApiResponse.headers와 같이 키를 소문자로 통일
+  const headers = item.headers ? Object.fromEntries(new Headers(item.headers)) : undefined;
+
+  if (item.status >= 200 && item.status < 300) {
+    return { success: true, data: item.body, statusCode: item.status, timestamp, requestId, headers };
+  }
+
+  return {
+    success: false,
+    error: createHttpError(item.status, item.body, ''),
+    statusCode: item.status,
+    timestamp,
+    requestId,
+    headers,
+  };
+};
+
+/**
+ * 응답에서 항목을 찾지 못한 경우의 실패 응답
+ */
+const createMissingResponse = (message: string, batchResponse: ApiResponse<unknown>): ApiResponse<unknown> => {
+  return {
+    success: false,
+    error: createAppError('SERVER_ERROR', { statusCode: batchResponse.statusCode, details: message }),
+    statusCode: batchResponse.statusCode,
+    timestamp: new Date().toISOString(),
+    requestId: batchResponse.requestId,
+  };
+};
+
+/**
+ * 요청 묶음 클래스
+ *
+ * @example
+ * const batcher = new RequestBatcher(sender, { maxSize: 20 });
+ * const response = await batcher.add('core', { method: 'GET', url: '/codes' }, () => apiClient.get('/codes'));
+ */
+export class RequestBatcher {
+  private options: Required<BatchOptions>;
+  private pending = new Map<ApiServiceName, PendingItem[]>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private send: BatchSender,
+    options: BatchOptions = {}
+  ) {
+    this.options = {
+      auto: false,
+      url: API_CONFIG.BATCH_URL,
+      envelope: defaultBatchEnvelope,
+      maxSize: API_CONFIG.BATCH_MAX_SIZE,
+      delay: API_CONFIG.BATCH_DELAY,
+      methods: ['GET'],
+    };
+    this.configure(options);
+  }
+
+  /**
+   * 설정 변경 (undefined인 값은 유지)
+   */
+  configure = (options: BatchOptions): void => {
+    Object.entries(options).forEach(([key, value]) => {
+      if (value !== undefined) {
+        (this.options as Record<string, unknown>)[key] = value;
+      }
+    });
+  };
+
+  /**
+   * 자동 묶음 대상 메서드인지 확인
+   */
+  isAutoBatched = (method: HttpMethod): boolean => {
+    return this.options.auto && this.options.methods.includes(method);
+  };
+
+  /**
+   * 항목 추가 (묶음 전송 후 자신의 응답으로 resolve)
+   *
+   * @param service - 서비스 이름 (서비스별로 따로 묶음)
+   * @param request - 개별 요청
+   * @param fallback - 묶지 않고 보낼 때 사용할 원래 요청
+   */
+  add = (
+    service: ApiServiceName,
+    request: Omit<BatchItemRequest, 'id'>,
+    fallback: () => Promise<ApiResponse<unknown>>
+  ): Promise<ApiResponse<unknown>> => {
+    return new Promise((resolve) => {
+      const items = this.pending.get(service) ?? [];
+      items.push({ request, fallback, resolve });
+      this.pending.set(service, items);
+
+      if (!this.timer) {
+        this.timer = setTimeout(this.flush, this.options.delay);
+      }
+    });
+  };
+
+  /**
+   * 대기 중인 항목을 서비스별로 maxSize개씩 묶어 전송
+   */
+  private flush = (): void => {
+    const pending = this.pending;
+    this.pending = new Map();
+    this.timer = null;
+
+    const maxSize = Math.max(this.options.maxSize, 1);
+    pending.forEach((items, service) => {
+      for (let start = 0; start < items.length; start += maxSize) {
+        void this.sendChunk(service, items.slice(start, start + maxSize));
+      }
+    });
+  };
+
+  /**
+   * 묶음 하나 전송 + 응답 분배
+   */
+  private sendChunk = async (service: ApiServiceName, items: PendingItem[]): Promise<void> => {
+    // 1건이면 envelope 없이 원래 요청으로 전송
+    if (items.length === 1) {
+      items[0].resolve(await items[0].fallback());
+      return;
+    }
+
+    const { url, envelope } = this.options;
+    const requests = items.map((item, index) => ({ id: String(index), ...item.request }));
+    const response = await this.send(service, url, envelope.encode(requests), requests);
+
+    // 1. 묶음 요청 자체가 실패하면 모든 항목이 같은 실패 응답
+    if (!response.success) {
+      items.forEach((item) => item.resolve({ ...response }));
+      return;
+    }
+
+    // 2. 응답 형식이 맞지 않으면 모든 항목 실패
+    const decoded = envelope.decode(response.data);
+    if (!decoded) {
+      items.forEach((item) => item.resolve(createMissingResponse(`Invalid batch response from ${url}`, response)));
+      return;
+    }
+
+    // 3. 항목 ID별로 응답 분배 (누락된 항목만 실패)
+    const responses = new Map(decoded.map((item) => [String(item.id), item]));
+    items.forEach((item, index) => {
+      const itemResponse = responses.get(String(index));
+      item.resolve(
+        itemResponse
+          ? toApiResponse(itemResponse, response.requestId)
+          : createMissingResponse(`Batch response has no item "${index}"`, response)
+      );
+    });
+  };
+}
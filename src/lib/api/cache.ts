@@ -0,0 +1,176 @@
+/**
+ * API 응답 캐시 (TTL + stale-while-revalidate)
+ *
+ * 왜 필요한가?
+ * - 코드 테이블 같은 참조 데이터를 페이지 이동마다 다시 불러오는 낭비 제거
+ * - ApiSpec에 cache 옵션만 선언하면 apiClient.fetch()가 자동으로 캐시 사용
+ *
+ * 캐시 상태:
+ * - fresh: ttl 이내 → 네트워크 요청 없이 즉시 반환
+ * - stale: ttl 경과 ~ ttl + staleWhileRevalidate 이내 → 캐시 반환 + 백그라운드 갱신
+ * - expired: 그 이후 → 캐시 무시, 네트워크 요청
+ *
+ * 저장소:
+ * - 기본은 메모리 (새로고침 시 초기화)
+ * - persist: true면 LocalStorage에도 저장 (storage.ts의 만료 시간 기능 재사용)
+ */
+
+import type { ApiCacheOptions, ApiResponse } from '../types';
+import { LocalStorage } from '../storage';
+import { STORAGE_KEYS } from '../constants';
+
+/**
+ * 캐시 엔트리
+ */
+interface CacheEntry {
+  /** 캐시된 응답 (성공 응답만 저장) */
+  response: ApiResponse<unknown>;
+  /** 이 시각까지 fresh (타임스탬프) */
+  freshUntil: number;
+  /** 이 시각까지 stale 상태로 사용 가능 (타임스탬프) */
+  staleUntil: number;
+  /** 무효화용 태그 */
+  tags: string[];
+}
+
+/**
+ * 캐시 조회 결과
+ */
+export interface CacheHit {
+  /** 캐시된 응답 (호출부 전용 복사본) */
+  response: ApiResponse<unknown>;
+  /** 백그라운드 갱신 필요 여부 */
+  stale: boolean;
+}
+
+/**
+ * 응답 캐시 클래스
+ */
+export class ResponseCache {
+  private memory = new Map<string, CacheEntry>();
+
+  /**
+   * 캐시 조회
+   *
+   * @param key - 캐시 키
+   * @returns 사용 가능한 캐시가 있으면 CacheHit, 없거나 만료되었으면 null
+   */
+  get = (key: string): CacheHit | null => {
+    const entry = this.memory.get(key) ?? this.restore(key);
+    if (!entry) {
+      return null;
+    }
+
+    const now = Date.now();
+    if (now > entry.staleUntil) {
+      this.delete(key);
+      return null;
+    }
+
+    return {
+      response: { ...entry.response },
+      stale: now > entry.freshUntil,
+    };
+  };
+
+  /**
+   * 응답 저장 (성공 응답만)
+   *
+   * @param key - 캐시 키
+   * @param response - 저장할 응답
+   * @param options - ApiSpec.cache 옵션
+   */
+  set = (key: string, response: ApiResponse<unknown>, options: ApiCacheOptions): void => {
+    if (!response.success) {
+      return;
+    }
+
+    const now = Date.now();
+    const entry: CacheEntry = {
+      response: { ...response },
+      freshUntil: now + options.ttl,
+      staleUntil: now + options.ttl + (options.staleWhileRevalidate ?? 0),
+      tags: options.tags ?? [],
+    };
+
+    this.memory.set(key, entry);
+
+    if (options.persist) {
+      LocalStorage.setItem(this.storageKey(key), entry, entry.staleUntil - now);
+    }
+  };
+
+  /**
+   * 태그로 캐시 무효화
+   *
+   * 언제 사용하는가?
+   * - 데이터를 변경하는 API(POST/PUT/PATCH/DELETE) 성공 후
+   * - ApiSpec.invalidates에 태그를 선언하면 apiClient.fetch()가 자동 호출
+   *
+   * @param tags - 무효화할 태그 목록
+   * @returns 삭제된 엔트리 수
+   */
+  invalidateTags = (tags: string[]): number => {
+    let count = 0;
+
+    this.memory.forEach((entry, key) => {
+      if (entry.tags.some((tag) => tags.includes(tag))) {
+        this.memory.delete(key);
+        count++;
+      }
+    });
+
+    // LocalStorage에 저장된 엔트리도 함께 삭제
+    LocalStorage.keys()
+      .filter((storageKey) => storageKey.startsWith(STORAGE_KEYS.API_CACHE_PREFIX))
+      .forEach((storageKey) => {
+        const entry = LocalStorage.getItem<CacheEntry>(storageKey);
+        if (entry && entry.tags.some((tag) => tags.includes(tag))) {
+          LocalStorage.removeItem(storageKey);
+          count++;
+        }
+      });
+
+    return count;
+  };
+
+  /**
+   * 전체 캐시 삭제
+   *
+   * 언제 사용하는가?
+   * - 로그아웃 시 (다른 사용자에게 이전 데이터 노출 방지)
+   */
+  clear = (): void => {
+    this.memory.clear();
+
+    LocalStorage.keys()
+      .filter((storageKey) => storageKey.startsWith(STORAGE_KEYS.API_CACHE_PREFIX))
+      .forEach((storageKey) => LocalStorage.removeItem(storageKey));
+  };
+
+  /**
+   * 단일 엔트리 삭제
+   */
+  private delete = (key: string): void => {
+    this.memory.delete(key);
+    LocalStorage.removeItem(this.storageKey(key));
+  };
+
+  /**
+   * LocalStorage에서 엔트리 복원 (새로고침 후 첫 조회)
+   */
+  private restore = (key: string): CacheEntry | null => {
+    const entry = LocalStorage.getItem<CacheEntry>(this.storageKey(key));
+    if (entry) {
+      this.memory.set(key, entry);
+    }
+    return entry;
+  };
+
+  /**
+   * LocalStorage 키 생성
+   */
+  private storageKey = (key: string): string => {
+    return `${STORAGE_KEYS.API_CACHE_PREFIX}${key}`;
+  };
+}
@@ -0,0 +1,200 @@
+/**
+ * CSRF 방어 (Double-Submit Cookie)
+ *
+ * 왜 필요한가?
+ * - 모든 요청이 credentials: 'include'로 인증 쿠키를 보내므로,
+ *   다른 사이트가 우리 API로 POST를 보내도 쿠키가 함께 전송됨 (CSRF)
+ * - 서버가 내려준 CSRF 쿠키 값을 헤더에 다시 담아 보내면,
+ *   쿠키를 읽을 수 없는 다른 사이트는 같은 헤더를 만들 수 없음
+ *
+ * 동작 방식:
+ * 1. POST/PUT/PATCH/DELETE 요청에 CSRF 쿠키 값을 헤더로 추가
+ * 2. 쿠키가 없으면 bootstrap API를 먼저 호출하여 발급 (동시 요청이 많아도 한 번만)
+ *    - 발급 API가 없거나(404 등) 토큰을 주지 않으면 기억하고 이후 요청은 발급 없이 전송
+ *    - 네트워크 에러, 5xx, 429는 일시 장애로 보고 다음 요청에서 다시 발급
+ * 3. 403 CSRF 실패 응답 → 토큰을 다시 발급받아 한 번만 재전송
+ *
+ * 왜 서비스 baseURL과 같은 출처에만 헤더를 붙이는가?
+ * - 절대 URL로 외부 API를 호출할 때 토큰이 유출되지 않도록
+ */
+
+import type { ApiClient } from '../api-client';
+import type { ApiResponse, HttpMethod } from '../types';
+import type { ApiRequest } from './interceptors';
+import { getCookie } from '../cookie';
+import { API_CONFIG, HTTP_STATUS } from '../constants';
+
+/**
+ * CSRF 설정
+ */
+export interface CsrfOptions {
+  /** CSRF 토큰 쿠키 이름 (기본값: API_CONFIG.CSRF_COOKIE_NAME) */
+  cookieName?: string;
+  /** 토큰을 담을 헤더 이름 (기본값: API_CONFIG.CSRF_HEADER_NAME) */
+  headerName?: string;
+  /**
+   * 토큰 발급 API (기본값: API_CONFIG.CSRF_BOOTSTRAP_URL)
+   *
+   * 응답으로 CSRF 쿠키를 설정하거나 본문에 { token } 또는 { csrfToken }을 반환
+   */
+  bootstrapURL?: string;
+  /**
+   * 403 응답이 CSRF 실패인지 판단 (기본값: 메시지/본문에 "csrf" 포함)
+   *
+   * 왜 403 전체가 아닌가?
+   * - 권한 부족(403)까지 토큰 재발급 + 재전송하면 불필요한 요청만 늘어남
+   */
+  isCsrfError?: (response: ApiResponse<unknown>) => boolean;
+}
+
+/**
+ * 토큰을 붙이는 메서드 (상태를 변경하는 요청)
+ */
+const CSRF_METHODS: readonly HttpMethod[] = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * 기본 CSRF 실패 판단
+ */
+const defaultIsCsrfError = (response: ApiResponse<unknown>): boolean => {
+  if (response.statusCode !== HTTP_STATUS.FORBIDDEN || !response.error) {
+    return false;
+  }
+
+  const { message, details } = response.error;
+  return /csrf|xsrf/i.test(`${message} ${typeof details === 'string' ? details : JSON.stringify(details ?? '')}`);
+};
+
+/**
+ * 다음 요청에서 다시 발급을 시도할 실패인지 확인 (네트워크 에러, 서버 일시 장애)
+ */
+const isTransientFailure = (response: ApiResponse<unknown>): boolean => {
+  return response.statusCode === 0 || response.statusCode === 429 || response.statusCode >= 500;
+};
+
+/**
+ * URL의 출처 (상대 경로는 현재 페이지 기준)
+ */
+const getOrigin = (url: string): string | null => {
+  try {
+    return new URL(url, window.location.href).origin;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * ApiClient에 CSRF 인터셉터 등록
+ *
+ * @param client - 인터셉터를 등록할 ApiClient
+ * @param options - 쿠키/헤더 이름, 발급 API 등
+ * @returns 인터셉터 해제 함수
+ *
+ * @example
+ * // ApiClient 생성 시 API_CONFIG 기본값으로 자동 등록됨
+ * // 백엔드 규칙이 다르면 apiClient.setCsrf()로 변경
+ * apiClient.setCsrf({ cookieName: 'csrftoken', headerName: 'X-CSRFToken' });
+ */
+export const setupCsrf = (client: ApiClient, options: CsrfOptions = {}): (() => void) => {
+  const {
+    cookieName = API_CONFIG.CSRF_COOKIE_NAME,
+    headerName = API_CONFIG.CSRF_HEADER_NAME,
+    bootstrapURL = API_CONFIG.CSRF_BOOTSTRAP_URL,
+    isCsrfError = defaultIsCsrfError,
+  } = options;
+
+  // 쿠키를 읽을 수 없는 경우(API가 다른 도메인)를 위해 발급 응답 본문의 토큰 보관
+  let memoryToken: string | null = null;
+  // 진행 중인 발급 작업 (없으면 null)
+  let bootstrapping: Promise<string | null> | null = null;
+  // 발급 API가 토큰을 주지 않음 (변경 요청마다 실패할 발급 요청을 먼저 보내지 않도록)
+  let unavailable = false;
+
+  const getToken = (): string | null => {
+    return getCookie(cookieName) ?? memoryToken;
+  };
+
+  /**
+   * 토큰 발급 (이미 진행 중이면 같은 Promise 반환)
+   */
+  const bootstrapOnce = (): Promise<string | null> => {
+    if (!bootstrapping) {
+      bootstrapping = (async () => {
+        // 304로 이전 응답 본문(만료된 토큰)을 받지 않도록 조건부 요청, 브라우저 캐시 모두 사용하지 않음
+        // skipAuthRefresh: 토큰 갱신 요청(POST /auth/refresh)이 발급을 기다리는 동안
+        // 발급 요청이 다시 갱신 완료를 기다리면 서로 끝나지 않음
+        const response = await client.get<{ token?: string; csrfToken?: string }>(bootstrapURL, undefined, {
+          dedupe: false,
+          priority: 'high',
+          conditional: false,
+          cache: 'no-store',
+          meta: { skipAuthRefresh: true },
+        });
+
+        const bodyToken = response.data?.token ?? response.data?.csrfToken;
+        if (typeof bodyToken === 'string') {
+          memoryToken = bodyToken;
+        }
+
+        const token = getToken();
+        unavailable = !token && !isTransientFailure(response);
+        if (!token) {
+          client.tracer.event(null, `CSRF token bootstrap failed (${bootstrapURL} → ${response.statusCode})`, 'warn');
+        }
+        return token;
+      })().finally(() => {
+        bootstrapping = null;
+      });
+    }
+
+    return bootstrapping;
+  };
+
+  /**
+   * 토큰을 붙일 요청인지 확인 (변경 요청 + 서비스 baseURL/현재 페이지와 같은 출처)
+   */
+  const shouldAttach = (request: ApiRequest): boolean => {
+    if (!CSRF_METHODS.includes(request.method) || typeof window === 'undefined') {
+      return false;
+    }
+
+    const origin = getOrigin(request.url);
+    return origin === window.location.origin || client.getBaseURLs().some((baseURL) => getOrigin(baseURL) === origin);
+  };
+
+  // 1. 변경 요청에 토큰 헤더 추가 (없으면 먼저 발급, 발급 API가 없으면 생략)
+  const removeRequest = client.interceptors.request.use(async (request) => {
+    if (!shouldAttach(request)) {
+      return request;
+    }
+
+    const token = getToken() ?? (unavailable ? null : await bootstrapOnce());
+    if (token) {
+      request.headers.set(headerName, token);
+    }
+    return request;
+  });
+
+  // 2. CSRF 실패 → 재발급 후 한 번만 재전송 (replay는 인터셉터를 다시 거치지 않으므로 반복되지 않음)
+  //    서버가 CSRF 토큰을 요구했으므로 발급 API가 없다고 기억했더라도 다시 발급
+  const removeResponse = client.interceptors.response.use(undefined, async (response, { request, replay }) => {
+    if (!shouldAttach(request) || !isCsrfError(response)) {
+      return response;
+    }
+
+    client.tracer.event(request.id, 'CSRF token rejected, refreshing token', 'warn');
+    memoryToken = null;
+
+    const token = await bootstrapOnce();
+    if (!token) {
+      return response;
+    }
+
+    request.headers.set(headerName, token);
+    return replay();
+  });
+
+  return () => {
+    removeRequest();
+    removeResponse();
+  };
+};
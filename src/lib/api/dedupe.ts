@@ -0,0 +1,63 @@
+/**
+ * 동시 GET 요청 중복 제거
+ *
+ * 왜 필요한가?
+ * - 대시보드 마운트 시 여러 컴포넌트가 같은 GET(예: /api/user/me)을 동시에 호출
+ * - 응답이 같을 요청을 매번 네트워크로 보내는 낭비 제거
+ *
+ * 동작 방식:
+ * - 메서드 + 전체 URL(query string 포함)이 같은 요청이 진행 중이면 같은 Promise 공유
+ * - 응답이 도착하면 목록에서 제거 (캐시가 아님 - 진행 중인 요청만 공유)
+ * - 호출부마다 응답 객체를 복사하여 한 호출부의 변경(transform 등)이 다른 곳에 영향 없음
+ */
+
+import type { ApiResponse, ApiResponseType, HttpMethod } from '../types';
+
+/**
+ * 중복 제거 키 생성
+ *
+ * @example
+ * getDedupeKey('GET', 'https://api.example.com/users?page=1')
+ * // => "GET https://api.example.com/users?page=1"
+ *
+ * 왜 responseType을 포함하는가?
+ * - 같은 URL이라도 JSON과 Blob 요청은 본문을 다르게 읽으므로 공유 불가
+ */
+export const getDedupeKey = (method: HttpMethod, url: string, responseType: ApiResponseType = 'json'): string => {
+  return responseType === 'json' ? `${method} ${url}` : `${method} ${url} (${responseType})`;
+};
+
+/**
+ * 진행 중인 요청 관리 클래스
+ */
+export class RequestDeduper {
+  private inflight = new Map<string, Promise<ApiResponse<unknown>>>();
+
+  /**
+   * @param onJoin - 진행 중인 요청에 합류했을 때 호출 (추적 기록용)
+   */
+  constructor(private onJoin?: (key: string) => void) {}
+
+  /**
+   * 같은 키의 요청이 진행 중이면 공유, 없으면 새로 실행
+   *
+   * @param key - 중복 제거 키
+   * @param factory - 실제 요청을 실행하는 함수 (진행 중인 요청이 없을 때만 호출)
+   * @returns 호출부 전용 응답 복사본
+   */
+  run = async <T>(key: string, factory: () => Promise<ApiResponse<T>>): Promise<ApiResponse<T>> => {
+    let shared = this.inflight.get(key);
+
+    if (!shared) {
+      shared = factory().finally(() => {
+        this.inflight.delete(key);
+      });
+      this.inflight.set(key, shared);
+    } else {
+      this.onJoin?.(key);
+    }
+
+    const response = await shared;
+    return { ...response } as ApiResponse<T>;
+  };
+}
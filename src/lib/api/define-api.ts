@@ -0,0 +1,177 @@
+/**
+ * 타입이 연결된 API 명세 빌더 (defineApi)
+ *
+ * 왜 필요한가?
+ * - 명세마다 URL을 문자열 조합으로 만들면 인코딩 누락, 파라미터 누락을 컴파일 타임에 잡을 수 없음
+ * - ApiSpec을 그냥 반환하면 응답 타입이 사라져 apiClient.fetch<User>()처럼 제네릭을 매번 적어야 함
+ *
+ * 제공 기능:
+ * - url: '/users/:id/orders/:orderId' → { id, orderId } 필수 파라미터 타입 추론
+ *   (절대 URL은 'https://host:8080' 부분을 제외한 경로에서만 추출)
+ * - 경로 파라미터 URL 인코딩 (encodeURIComponent)
+ * - 요청/응답 타입을 ApiSpec<TData, TResponse>에 담아 apiClient.fetch()까지 전달
+ *
+ * @example
+ * export const userApi = {
+ *   get: defineApi<User>()({ method: 'GET', url: '/users/:id' }),
+ *   update: defineApi<User, UpdateUserParams>()({ method: 'PUT', url: '/users/:id', invalidates: ['users'] }),
+ *   create: defineApi<User, CreateUserParams>()({ method: 'POST', url: '/users' }),
+ * };
+ *
+ * const response = await apiClient.fetch(userApi.get({ id: 1 })); // ApiResponse<User>
+ * await apiClient.fetch(userApi.update({ id: 1 }, { name: '홍길동' }));
+ * await apiClient.fetch(userApi.create({ name: '홍길동' }));
+ */
+
+import type { ApiSpec } from '../types';
+
+/**
+ * 절대 URL에서 출처(scheme://host[:port]) 제거
+ *
+ * 왜 필요한가?
+ * - 'http://localhost:8080/items'의 ':8080', 'https:'의 ':'를 경로 파라미터로 오인하지 않도록
+ *
+ * @example
+ * StripOrigin<'http://localhost:8080/items/:id'> // '/items/:id'
+ * StripOrigin<'/items/:id'> // '/items/:id'
+ */
+type StripOrigin<TPath extends string> = TPath extends `${infer Scheme}://${infer Rest}`
+  ? Scheme extends `${string}${'/' | ':' | '?' | '#'}${string}`
+    ? TPath
+    : Rest extends `${string}/${infer Path}`
+      ? `/${Path}`
+      : ''
+  : TPath;
+
+/**
+ * 경로에서 경로 파라미터 이름 추출
+ */
+type ParamNamesInPath<TPath extends string> = TPath extends `${string}:${infer Param}/${infer Rest}`
+  ? Param | ParamNamesInPath<`/${Rest}`>
+  : TPath extends `${string}:${infer Param}`
+    ? Param
+    : never;
+
+/**
+ * URL 템플릿에서 경로 파라미터 이름 추출
+ *
+ * @example
+ * PathParamNames<'/users/:id/orders/:orderId'> // 'id' | 'orderId'
+ * PathParamNames<'http://localhost:8080/items'> // never
+ */
+export type PathParamNames<TPath extends string> = ParamNamesInPath<StripOrigin<TPath>>;
+
+/**
+ * 경로 파라미터 객체 타입
+ */
+export type PathParams<TPath extends string> = {
+  [K in PathParamNames<TPath>]: string | number;
+};
+
+/**
+ * 명세 함수 인자 (경로 파라미터 유무, 요청 데이터 유무에 따라 결정)
+ *
+ * - 경로 파라미터 O, 데이터 O: (params, data)
+ * - 경로 파라미터 O, 데이터 X: (params)
+ * - 경로 파라미터 X, 데이터 O: (data)
+ * - 경로 파라미터 X, 데이터 X: ()
+ */
+export type ApiEndpointArgs<TPath extends string, TData> = [PathParamNames<TPath>] extends [never]
+  ? [TData] extends [void]
+    ? []
+    : [data: TData]
+  : [TData] extends [void]
+    ? [params: PathParams<TPath>]
+    : [params: PathParams<TPath>, data: TData];
+
+/**
+ * defineApi에 전달하는 정의 (url은 템플릿, data는 호출 시 전달)
+ */
+export type ApiDefinition<TPath extends string, TData, TResponse> = Omit<ApiSpec<TData, TResponse>, 'url' | 'data'> & {
+  /** URL 템플릿 (예: '/users/:id') */
+  url: TPath;
+};
+
+/**
+ * defineApi가 만드는 명세 함수
+ */
+export type ApiEndpoint<TPath extends string, TData, TResponse> = ((
+  ...args: ApiEndpointArgs<TPath, TData>
+) => ApiSpec<TData, TResponse>) & {
+  /** URL 템플릿 (로깅, 테스트용) */
+  readonly template: TPath;
+};
+
+/**
+ * 경로 파라미터 패턴 (:name)
+ */
+const PATH_PARAM_PATTERN = /:([A-Za-z0-9_]+)/g;
+
+/**
+ * 절대 URL의 출처 패턴 (scheme://host[:port])
+ */
+const ORIGIN_PATTERN = /^[A-Za-z][A-Za-z0-9+.-]*:\/\/[^/?#]*/;
+
+/**
+ * URL 템플릿을 출처와 경로로 분리 (상대 경로는 출처가 '')
+ */
+const splitOrigin = (template: string): [origin: string, path: string] => {
+  const origin = ORIGIN_PATTERN.exec(template)?.[0] ?? '';
+  return [origin, template.slice(origin.length)];
+};
+
+/**
+ * URL 템플릿에 경로 파라미터 적용
+ *
+ * @param template - URL 템플릿 (예: '/users/:id')
+ * @param params - 경로 파라미터
+ * @throws 필수 파라미터가 없으면 Error (명세 정의 실수를 바로 발견)
+ *
+ * @example
+ * buildPath('/files/:name', { name: '보고서 1.pdf' }); // => "/files/%EB%B3%B4%EA%B3%A0%EC%84%9C%201.pdf"
+ * buildPath('http://localhost:8080/items/:id', { id: 1 }); // => "http://localhost:8080/items/1"
+ */
+export const buildPath = (template: string, params: Record<string, string | number> = {}): string => {
+  const [origin, path] = splitOrigin(template);
+
+  return (
+    origin +
+    path.replace(PATH_PARAM_PATTERN, (_match, name: string) => {
+      const value = params[name];
+      if (value === undefined || value === null || value === '') {
+        throw new Error(`Missing path parameter "${name}" for ${template}`);
+      }
+      return encodeURIComponent(String(value));
+    })
+  );
+};
+
+/**
+ * 타입이 연결된 API 명세 함수 생성
+ *
+ * 왜 함수를 두 번 호출하는가? (defineApi<User>()({...}))
+ * - TypeScript는 제네릭 일부만 지정하고 나머지를 추론하는 기능이 없음
+ * - 첫 번째 호출에서 응답/요청 타입을 지정하고, 두 번째 호출에서 url 리터럴을 추론
+ *
+ * @template TResponse - 응답 데이터 타입
+ * @template TData - 요청 데이터 타입 (GET/DELETE는 query, 그 외는 body / 없으면 void)
+ */
+export const defineApi = <TResponse = unknown, TData = void>() => {
+  return <TPath extends string>(
+    definition: ApiDefinition<TPath, TData, TResponse>
+  ): ApiEndpoint<TPath, TData, TResponse> => {
+    const hasPathParams = new RegExp(PATH_PARAM_PATTERN.source).test(splitOrigin(definition.url)[1]);
+
+    const endpoint = (...args: unknown[]): ApiSpec<TData, TResponse> => {
+      const [params, data] = hasPathParams ? args : [undefined, args[0]];
+
+      return {
+        ...definition,
+        url: buildPath(definition.url, params as Record<string, string | number> | undefined),
+        data: data as TData,
+      };
+    };
+
+    return Object.assign(endpoint, { template: definition.url }) as ApiEndpoint<TPath, TData, TResponse>;
+  };
+};
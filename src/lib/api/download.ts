@@ -0,0 +1,91 @@
+/**
+ * 파일 다운로드 (Content-Disposition 파일명 + 브라우저 저장)
+ *
+ * 왜 필요한가?
+ * - 엑셀/PDF/CSV 보고서 내보내기는 JSON이 아닌 바이너리 응답
+ * - 파일명은 서버가 Content-Disposition 헤더로 지정 (한글 파일명 포함)
+ *
+ * 한글 파일명 처리:
+ * - RFC 5987: filename*=UTF-8''%EC%9B%94%EA%B0%84.xlsx (우선 사용)
+ * - 일반: filename="report.xlsx" (퍼센트 인코딩된 값도 디코딩 시도)
+ */
+
+/**
+ * 안전한 URI 디코딩 (잘못된 인코딩이면 원본 반환)
+ */
+const safeDecode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Content-Disposition 헤더에서 파일명 추출
+ *
+ * @param header - Content-Disposition 헤더 값
+ * @returns 파일명 (없으면 null)
+ *
+ * @example
+ * parseContentDispositionFilename(`attachment; filename*=UTF-8''%EB%B3%B4%EA%B3%A0%EC%84%9C.xlsx`);
+ * // => "보고서.xlsx"
+ * parseContentDispositionFilename('attachment; filename="report.csv"');
+ * // => "report.csv"
+ */
+export const parseContentDispositionFilename = (header: string | null): string | null => {
+  if (!header) {
+    return null;
+  }
+
+  // 1. RFC 5987 확장 표기 (charset'lang'value)
+  const extended = header.match(/filename\*\s*=\s*([^']*)'[^']*'([^;]+)/i);
+  if (extended) {
+    return safeDecode(extended[2].trim().replace(/^"|"$/g, ''));
+  }
+
+  // 2. 일반 표기 (따옴표 유무 모두 허용)
+  const plain = header.match(/filename\s*=\s*("(?:[^"\\]|\\.)*"|[^;]+)/i);
+  if (plain) {
+    const value = plain[1].trim().replace(/^"|"$/g, '').replace(/\\(.)/g, '$1');
+    return safeDecode(value);
+  }
+
+  return null;
+};
+
+/**
+ * Blob을 파일로 저장 (브라우저 다운로드 실행)
+ *
+ * 왜 <a download>를 사용하는가?
+ * - window.open은 팝업 차단 대상이며 파일명을 지정할 수 없음
+ *
+ * @param blob - 저장할 데이터
+ * @param filename - 저장할 파일명
+ */
+export const saveBlob = (blob: Blob, filename: string): void => {
+  const objectURL = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+
+  anchor.href = objectURL;
+  anchor.download = filename;
+  anchor.style.display = 'none';
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+
+  // 클릭 직후 해제하면 일부 브라우저에서 다운로드가 취소되므로 다음 틱에 해제
+  setTimeout(() => URL.revokeObjectURL(objectURL), 0);
+};
+
+/**
+ * URL에서 기본 파일명 추출 (Content-Disposition이 없을 때)
+ *
+ * @example
+ * getFilenameFromURL('/reports/monthly.xlsx?year=2024'); // => "monthly.xlsx"
+ */
+export const getFilenameFromURL = (url: string): string => {
+  const path = url.split(/[?#]/)[0];
+  const name = path.substring(path.lastIndexOf('/') + 1);
+  return safeDecode(name) || 'download';
+};
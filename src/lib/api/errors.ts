@@ -0,0 +1,160 @@
+/**
+ * API 에러 분류 (AppError 생성)
+ *
+ * 왜 필요한가?
+ * - 실패 응답의 error가 문자열뿐이면 호출부가 메시지 문자열을 비교해야 함
+ * - ErrorType으로 분류하면 Store/페이지에서 error.type으로 분기 가능
+ * - 사용자에게 보여줄 메시지를 한 곳에서 관리 (한국어)
+ *
+ * 상태 코드 매핑:
+ * - 0 → NETWORK_ERROR (연결 실패, 타임아웃, 취소)
+ * - 400, 422 → VALIDATION_ERROR (필드별 에러 포함)
+ * - 401 → AUTHENTICATION_ERROR
+ * - 403 → AUTHORIZATION_ERROR
+ * - 404 → NOT_FOUND_ERROR
+ * - 409, 412 → CONFLICT_ERROR (다른 사용자가 먼저 수정 - 최신 내용을 다시 불러오도록 안내)
+ * - 429, 5xx → SERVER_ERROR ("잠시 후 다시 시도" 안내)
+ */
+
+import type { AppError, ErrorType } from '../types';
+import { HTTP_STATUS } from '../constants';
+
+/**
+ * 에러 타입별 기본 메시지 (사용자용)
+ */
+export const ERROR_MESSAGES: Record<ErrorType, string> = {
+  VALIDATION_ERROR: '입력값을 확인해주세요',
+  AUTHENTICATION_ERROR: '로그인이 필요합니다',
+  AUTHORIZATION_ERROR: '접근 권한이 없습니다',
+  NOT_FOUND_ERROR: '요청한 정보를 찾을 수 없습니다',
+  CONFLICT_ERROR: '다른 사용자가 먼저 수정했습니다. 최신 내용을 확인한 후 다시 시도해주세요',
+  NETWORK_ERROR: '네트워크 연결을 확인해주세요',
+  SERVER_ERROR: '서버에 일시적인 문제가 발생했습니다. 잠시 후 다시 시도해주세요',
+  UNKNOWN_ERROR: '알 수 없는 오류가 발생했습니다',
+};
+
+/**
+ * HTTP 상태 코드 → ErrorType
+ */
+export const getErrorType = (statusCode: number): ErrorType => {
+  if (statusCode === 0) {
+    return 'NETWORK_ERROR';
+  }
+  if (statusCode === HTTP_STATUS.BAD_REQUEST || statusCode === HTTP_STATUS.UNPROCESSABLE_ENTITY) {
+    return 'VALIDATION_ERROR';
+  }
+  if (statusCode === HTTP_STATUS.UNAUTHORIZED) {
+    return 'AUTHENTICATION_ERROR';
+  }
+  if (statusCode === HTTP_STATUS.FORBIDDEN) {
+    return 'AUTHORIZATION_ERROR';
+  }
+  if (statusCode === HTTP_STATUS.NOT_FOUND) {
+    return 'NOT_FOUND_ERROR';
+  }
+  if (statusCode === HTTP_STATUS.CONFLICT || statusCode === HTTP_STATUS.PRECONDITION_FAILED) {
+    return 'CONFLICT_ERROR';
+  }
+  if (statusCode === HTTP_STATUS.TOO_MANY_REQUESTS || statusCode >= 500) {
+    return 'SERVER_ERROR';
+  }
+  return 'UNKNOWN_ERROR';
+};
+
+/**
+ * AppError 생성
+ *
+ * @param type - 에러 타입
+ * @param options - 메시지(생략 시 기본 메시지), 상태 코드, 상세 정보
+ */
+export const createAppError = (
+  type: ErrorType,
+  options: Partial<Omit<AppError, 'type' | 'timestamp'>> = {}
+): AppError => {
+  return {
+    type,
+    message: options.message || ERROR_MESSAGES[type],
+    statusCode: options.statusCode,
+    details: options.details,
+    fieldErrors: options.fieldErrors,
+    timestamp: new Date().toISOString(),
+  };
+};
+
+/**
+ * 객체 형태의 값인지 확인 (에러 본문, 필드 에러 항목)
+ */
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null;
+};
+
+/**
+ * 서버 에러 본문에서 필드별 에러 추출
+ *
+ * 지원 형식:
+ * - { errors: { email: ['형식 오류'] } }
+ * - { errors: [{ field: 'email', message: '형식 오류' }] }
+ * - { fieldErrors: ... } (위 두 형식 동일)
+ */
+const parseFieldErrors = (body: unknown): Record<string, string[]> | undefined => {
+  const source = isRecord(body) ? (body.fieldErrors ?? body.errors) : undefined;
+  if (!isRecord(source)) {
+    return undefined;
+  }
+
+  const fieldErrors: Record<string, string[]> = {};
+
+  if (Array.isArray(source)) {
+    source.forEach((item: unknown) => {
+      if (!isRecord(item)) {
+        return;
+      }
+      const field = item.field ?? item.path;
+      const message = item.message ?? item.defaultMessage;
+      if (typeof field === 'string' && typeof message === 'string') {
+        (fieldErrors[field] ??= []).push(message);
+      }
+    });
+  } else {
+    Object.entries(source).forEach(([field, messages]) => {
+      const list = (Array.isArray(messages) ? messages : [messages]).filter(
+        (message): message is string => typeof message === 'string'
+      );
+      if (list.length > 0) {
+        fieldErrors[field] = list;
+      }
+    });
+  }
+
+  return Object.keys(fieldErrors).length > 0 ? fieldErrors : undefined;
+};
+
+/**
+ * HTTP 에러 응답 → AppError
+ *
+ * 메시지 결정:
+ * - 4xx: 서버 메시지 우선 (업무 규칙 위반 등 사용자에게 보여줄 내용)
+ * - 5xx: 항상 기본 메시지 (스택 트레이스 등 내부 정보 노출 방지, 원문은 details에 보관)
+ *
+ * @param statusCode - HTTP 상태 코드
+ * @param body - 파싱된 에러 본문 (JSON이 아니면 null)
+ * @param statusText - HTTP 상태 텍스트 (details 보관용)
+ */
+export const createHttpError = (statusCode: number, body: unknown, statusText: string): AppError => {
+  const type = getErrorType(statusCode);
+  const serverMessage = isRecord(body) ? body.message || body.error : undefined;
+
+  return createAppError(type, {
+    message: statusCode < 500 && typeof serverMessage === 'string' ? serverMessage : undefined,
+    statusCode,
+    details: body ?? statusText,
+    fieldErrors: type === 'VALIDATION_ERROR' ? parseFieldErrors(body) : undefined,
+  });
+};
+
+/**
+ * 값이 AppError인지 확인
+ */
+export const isAppError = (value: unknown): value is AppError => {
+  return typeof value === 'object' && value !== null && 'type' in value && 'message' in value;
+};
@@ -0,0 +1,142 @@
+/**
+ * ETag 조건부 요청 (If-None-Match / If-Match)
+ *
+ * 왜 필요한가?
+ * - 목록/상세 화면을 다시 열 때마다 바뀌지 않은 큰 응답을 다시 받는 낭비 제거
+ *   (서버가 304 Not Modified만 보내면 기억해 둔 본문을 그대로 사용)
+ * - 두 사용자가 같은 작업지시를 동시에 수정할 때 나중 저장이 앞선 수정을 덮어쓰지 않도록
+ *   (PUT/PATCH에 If-Match를 보내면 그 사이 변경된 경우 서버가 412로 거절)
+ *
+ * 동작 방식:
+ * 1. GET 성공 응답에 ETag/Last-Modified가 있으면 URL별로 본문과 함께 기억
+ * 2. 같은 URL GET에 If-None-Match/If-Modified-Since 추가
+ * 3. 304 응답 → 기억해 둔 본문으로 성공 응답 생성 (호출부는 차이를 알 필요 없음)
+ * 4. 변경 요청 성공 → 기억해 둔 본문 삭제 (변경 응답의 ETag는 다음 If-Match용으로만 보관)
+ *
+ * ResponseCache(ApiSpec.cache)와의 차이:
+ * - ResponseCache는 ttl 동안 네트워크 요청 자체를 생략
+ * - ETag는 매번 서버에 확인하되 본문 전송만 생략 (항상 최신 보장)
+ */
+
+import type { ApiResponse } from '../types';
+
+/**
+ * 기억해 둔 검증 값
+ */
+interface EtagEntry {
+  /** ETag 헤더 값 */
+  etag?: string;
+  /** Last-Modified 헤더 값 */
+  lastModified?: string;
+  /** 304 응답 시 돌려줄 성공 응답 (변경 요청 응답의 ETag만 보관한 경우 없음) */
+  response?: ApiResponse<unknown>;
+}
+
+/**
+ * ETag 저장소 클래스
+ *
+ * 왜 최대 개수를 두는가?
+ * - 검색 조건마다 URL이 달라 제한 없이 기억하면 메모리가 계속 증가
+ * - 가장 오래 사용하지 않은 URL부터 삭제 (Map 삽입 순서 이용)
+ *
+ * @example
+ * const etags = new EtagStore(200);
+ * etags.applyConditionalHeaders(url, request.headers); // If-None-Match 추가
+ * const cached = etags.resolveNotModified(url, {});    // 304 → 기억해 둔 응답
+ */
+export class EtagStore {
+  private entries = new Map<string, EtagEntry>();
+
+  /**
+   * @param maxEntries - 기억할 최대 URL 수
+   */
+  constructor(private maxEntries: number) {}
+
+  /**
+   * GET 요청에 조건부 헤더 추가 (호출부가 직접 지정한 헤더는 유지)
+   */
+  applyConditionalHeaders = (url: string, headers: Headers): void => {
+    const entry = this.touch(url);
+    if (!entry?.response) {
+      return;
+    }
+
+    if (entry.etag && !headers.has('If-None-Match')) {
+      headers.set('If-None-Match', entry.etag);
+    } else if (entry.lastModified && !headers.has('If-Modified-Since')) {
+      headers.set('If-Modified-Since', entry.lastModified);
+    }
+  };
+
+  /**
+   * If-Match에 사용할 ETag 조회
+   *
+   * @returns 마지막 GET 또는 변경 요청 응답의 ETag (없으면 undefined)
+   */
+  getETag = (url: string): string | undefined => {
+    return this.touch(url)?.etag;
+  };
+
+  /**
+   * 304 응답을 기억해 둔 성공 응답으로 변환
+   *
+   * @param url - 요청 URL
+   * @param headers - 304 응답 헤더 (기억해 둔 헤더 위에 병합)
+   * @returns 기억해 둔 응답이 없으면 null
+   */
+  resolveNotModified = (url: string, headers: Record<string, string>): ApiResponse<unknown> | null => {
+    const entry = this.touch(url);
+    if (!entry?.response) {
+      return null;
+    }
+
+    return {
+      ...entry.response,
+      headers: { ...entry.response.headers, ...headers },
+      timestamp: new Date().toISOString(),
+    };
+  };
+
+  /**
+   * 응답의 검증 값 기억
+   *
+   * @param url - 요청 URL
+   * @param response - 성공 응답 (headers 포함)
+   * @param keepBody - 304 때 돌려줄 본문으로 보관할지 여부 (GET만 true)
+   */
+  remember = (url: string, response: ApiResponse<unknown>, keepBody: boolean): void => {
+    const etag = response.headers?.etag;
+    const lastModified = response.headers?.['last-modified'];
+
+    // 본문이 바뀌었으므로 검증 값이 없으면 이전 값도 사용할 수 없음
+    this.entries.delete(url);
+    if (!etag && !(keepBody && lastModified)) {
+      return;
+    }
+
+    this.entries.set(url, { etag, lastModified, response: keepBody ? response : undefined });
+
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  };
+
+  /**
+   * 전체 삭제 (로그아웃 시 등)
+   */
+  clear = (): void => {
+    this.entries.clear();
+  };
+
+  /**
+   * 조회 + 최근 사용으로 표시 (Map 끝으로 이동)
+   */
+  private touch = (url: string): EtagEntry | undefined => {
+    const entry = this.entries.get(url);
+    if (entry) {
+      this.entries.delete(url);
+      this.entries.set(url, entry);
+    }
+    return entry;
+  };
+}
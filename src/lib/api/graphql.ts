@@ -0,0 +1,314 @@
+/**
+ * GraphQL 요청 (apiClient.graphql, defineGraphQL)
+ *
+ * 왜 필요한가?
+ * - 일부 백엔드가 GraphQL을 제공하는데 ApiSpec은 REST 메서드만 표현할 수 있었음
+ * - 별도 GraphQL 클라이언트를 쓰면 baseURL, 쿠키, 타임아웃, 재시도, 토큰 갱신, 추적 기록을 다시 구현해야 함
+ * - GraphQL 요청을 일반 POST/GET 명세로 바꿔 apiClient의 요청 경로를 그대로 사용
+ *
+ * 응답 처리:
+ * - { data } → 성공 응답 (data 필드만 반환)
+ * - { errors: [...] } → 실패 응답 (HTTP 200이어도 실패, 일부 data가 있어도 실패)
+ *   - error.type: 첫 번째 에러의 extensions.code로 분류 (UNAUTHENTICATED → AUTHENTICATION_ERROR 등)
+ *   - error.fieldErrors: 에러 path별 메시지 ({ 'createOrder.quantity': ['...'] })
+ *   - error.details: { errors, data } (원본 에러 목록 + 일부 data)
+ *
+ * 주의:
+ * - 토큰 갱신 등 응답 인터셉터는 HTTP 상태 코드 기준이므로
+ *   HTTP 200 + UNAUTHENTICATED 에러는 재발급 없이 실패 응답으로 전달됨
+ */
+
+import type { ApiResponse, ApiSpec, ErrorType, GraphQLOperation, HttpMethod } from '../types';
+import { createAppError } from './errors';
+import { API_CONFIG } from '../constants';
+
+/**
+ * GraphQL 에러 (GraphQL 명세 형식)
+ */
+export interface GraphQLError {
+  /** 에러 메시지 */
+  message: string;
+  /** 에러가 발생한 필드 경로 (예: ['createOrder', 'items', 0, 'quantity']) */
+  path?: (string | number)[];
+  /** 문서 내 위치 */
+  locations?: { line: number; column: number }[];
+  /** 서버 확장 정보 (code 등) */
+  extensions?: Record<string, unknown> & { code?: string };
+}
+
+/**
+ * GraphQL 응답 본문
+ */
+export interface GraphQLResult<TData> {
+  data?: TData | null;
+  errors?: GraphQLError[];
+}
+
+/**
+ * extensions.code → ErrorType (Apollo Server 기본 코드 기준)
+ */
+const GRAPHQL_ERROR_TYPES: Record<string, ErrorType> = {
+  UNAUTHENTICATED: 'AUTHENTICATION_ERROR',
+  FORBIDDEN: 'AUTHORIZATION_ERROR',
+  BAD_USER_INPUT: 'VALIDATION_ERROR',
+  GRAPHQL_VALIDATION_FAILED: 'VALIDATION_ERROR',
+  GRAPHQL_PARSE_FAILED: 'VALIDATION_ERROR',
+  NOT_FOUND: 'NOT_FOUND_ERROR',
+  CONFLICT: 'CONFLICT_ERROR',
+  INTERNAL_SERVER_ERROR: 'SERVER_ERROR',
+};
+
+/**
+ * Persisted Query 서버 응답 (에러 코드, 에러 메시지)
+ */
+const PERSISTED_QUERY_ERRORS = {
+  notFound: ['PERSISTED_QUERY_NOT_FOUND', 'PersistedQueryNotFound'],
+  notSupported: ['PERSISTED_QUERY_NOT_SUPPORTED', 'PersistedQueryNotSupported'],
+} as const;
+
+/**
+ * 문서의 첫 작업 이름
+ *
+ * @example
+ * getOperationName('query GetWorkOrder($id: ID!) { ... }'); // => 'GetWorkOrder'
+ */
+export const getOperationName = (query: string): string | undefined => {
+  return /\b(?:query|mutation|subscription)\s+([A-Za-z_][A-Za-z0-9_]*)/.exec(query)?.[1];
+};
+
+/**
+ * 전송할 요청 데이터 생성
+ *
+ * - POST: { query, variables, operationName, extensions } 본문
+ * - GET: 같은 값을 query string으로 (variables, extensions는 JSON 문자열)
+ *
+ * @param method - HTTP 메서드
+ * @param operation - GraphQL 작업
+ * @param variables - 변수
+ * @param hash - Persisted Query 해시 (없으면 null)
+ * @param includeQuery - 문서 포함 여부 (해시만 보낼 때 false)
+ */
+export const buildGraphQLPayload = (
+  method: HttpMethod,
+  operation: GraphQLOperation,
+  variables: unknown,
+  hash: string | null = null,
+  includeQuery = true
+): Record<string, unknown> => {
+  const extensions = hash ? { persistedQuery: { version: 1, sha256Hash: hash } } : undefined;
+  const payload = {
+    query: includeQuery ? operation.query : undefined,
+    operationName: operation.operationName ?? getOperationName(operation.query),
+    variables: variables ?? undefined,
+    extensions,
+  };
+
+  if (method !== 'GET') {
+    return payload;
+  }
+
+  return {
+    ...payload,
+    variables: payload.variables === undefined ? undefined : JSON.stringify(payload.variables),
+    extensions: extensions && JSON.stringify(extensions),
+  };
+};
+
+/**
+ * 응답에 담긴 GraphQL 에러 목록 (성공 응답 본문 또는 HTTP 에러 본문)
+ */
+const getGraphQLErrors = (response: ApiResponse<unknown>): GraphQLError[] | null => {
+  const source = response.success ? response.data : response.error?.details;
+  const errors = (source as GraphQLResult<unknown> | null | undefined)?.errors;
+  return Array.isArray(errors) && errors.length > 0 ? errors : null;
+};
+
+/**
+ * Persisted Query 관련 에러인지 확인
+ */
+export const hasPersistedQueryError = (
+  response: ApiResponse<unknown>,
+  kind: keyof typeof PERSISTED_QUERY_ERRORS
+): boolean => {
+  const names: readonly string[] = PERSISTED_QUERY_ERRORS[kind];
+  return (
+    getGraphQLErrors(response)?.some(
+      (error) => names.includes(String(error.extensions?.code)) || names.includes(error.message)
+    ) ?? false
+  );
+};
+
+/**
+ * path별 에러 메시지 (path가 없는 에러는 제외)
+ */
+const getPathErrors = (errors: GraphQLError[]): Record<string, string[]> | undefined => {
+  const fieldErrors: Record<string, string[]> = {};
+
+  errors.forEach((error) => {
+    if (error.path?.length) {
+      (fieldErrors[error.path.join('.')] ??= []).push(error.message);
+    }
+  });
+
+  return Object.keys(fieldErrors).length > 0 ? fieldErrors : undefined;
+};
+
+/**
+ * GraphQL 응답 → ApiResponse (data 필드만 반환, errors는 실패 응답)
+ *
+ * 왜 일부 data가 있어도 실패인가?
+ * - 호출부가 success만 확인하고 null 필드를 그대로 화면에 표시하는 실수 방지
+ * - 일부 data가 필요하면 error.details.data에서 사용
+ */
+export const toGraphQLResponse = <T>(response: ApiResponse<GraphQLResult<T>>): ApiResponse<T> => {
+  const errors = getGraphQLErrors(response);
+
+  // 1. HTTP 에러 → 상태 코드 분류 유지, GraphQL 에러가 있으면 메시지/path별 에러만 보강
+  if (!response.success) {
+    if (!errors || !response.error) {
+      return response as ApiResponse<unknown> as ApiResponse<T>;
+    }
+    return {
+      ...response,
+      error: {
+        ...response.error,
+        message: response.statusCode < 500 ? errors[0].message : response.error.message,
+        fieldErrors: getPathErrors(errors) ?? response.error.fieldErrors,
+      },
+    } as ApiResponse<unknown> as ApiResponse<T>;
+  }
+
+  // 2. 성공 → data 필드만 반환
+  if (!errors) {
+    return { ...response, data: response.data?.data ?? undefined };
+  }
+
+  // 3. HTTP 200 + errors → 실패 응답 (서버 내부 에러는 5xx와 같이 기본 메시지)
+  const code = errors.map((error) => error.extensions?.code).find((value) => value && GRAPHQL_ERROR_TYPES[value]);
+  const type = code ? GRAPHQL_ERROR_TYPES[code] : 'UNKNOWN_ERROR';
+
+  return {
+    ...response,
+    success: false,
+    data: undefined,
+    error: createAppError(type, {
+      message: type === 'SERVER_ERROR' ? undefined : errors[0].message,
+      statusCode: response.statusCode,
+      details: { errors, data: response.data?.data },
+      fieldErrors: getPathErrors(errors),
+    }),
+  };
+};
+
+/**
+ * SHA-256 해시 (16진수)
+ *
+ * @returns crypto.subtle을 사용할 수 없으면 null (HTTP 환경 등)
+ */
+const sha256 = async (text: string): Promise<string | null> => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    return null;
+  }
+
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Persisted Query 해시 저장소
+ *
+ * 왜 필요한가?
+ * - 같은 문서의 해시를 요청마다 다시 계산하지 않도록 문서별로 기억
+ * - 서버가 Persisted Query를 지원하지 않으면 해당 엔드포인트는 이후 문서를 바로 전송
+ *
+ * @example
+ * const hash = await persistedQueries.getHash(operation, 'https://api.example.com/graphql');
+ */
+export class PersistedQueryStore {
+  private hashes = new Map<string, Promise<string | null>>();
+  private unsupported = new Set<string>();
+
+  /**
+   * 작업의 해시 조회
+   *
+   * @param operation - GraphQL 작업
+   * @param endpoint - GraphQL 엔드포인트 URL
+   * @returns Persisted Query를 사용하지 않으면 null
+   */
+  getHash = (operation: GraphQLOperation, endpoint: string): Promise<string | null> => {
+    if (!operation.persisted || this.unsupported.has(endpoint)) {
+      return Promise.resolve(null);
+    }
+    if (typeof operation.persisted === 'string') {
+      return Promise.resolve(operation.persisted);
+    }
+
+    let hash = this.hashes.get(operation.query);
+    if (!hash) {
+      hash = sha256(operation.query).catch(() => null);
+      this.hashes.set(operation.query, hash);
+    }
+    return hash;
+  };
+
+  /**
+   * 엔드포인트가 Persisted Query를 지원하지 않음으로 표시
+   */
+  markUnsupported = (endpoint: string): void => {
+    this.unsupported.add(endpoint);
+  };
+}
+
+/**
+ * defineGraphQL에 전달하는 정의
+ */
+export type GraphQLDefinition<TVars, TData> = Omit<ApiSpec<TVars, TData>, 'method' | 'url' | 'data' | 'graphql'> &
+  GraphQLOperation & {
+    /** HTTP 메서드 (기본값: 'POST', 조회를 캐시/ETag 대상으로 만들려면 'GET') */
+    method?: 'GET' | 'POST';
+    /** GraphQL 엔드포인트 경로 (기본값: API_CONFIG.GRAPHQL_URL) */
+    url?: string;
+  };
+
+/**
+ * defineGraphQL이 만드는 명세 함수 (변수가 없으면 인자 없음)
+ */
+export type GraphQLEndpoint<TVars, TData> = ((
+  ...args: [TVars] extends [void] ? [] : [variables: TVars]
+) => ApiSpec<TVars, TData>) & {
+  /** GraphQL 문서 (로깅, 테스트용) */
+  readonly query: string;
+};
+
+/**
+ * 타입이 연결된 GraphQL 명세 함수 생성 (defineApi의 GraphQL 버전)
+ *
+ * @template TData - 응답 data 타입
+ * @template TVars - 변수 타입 (없으면 void)
+ *
+ * @example
+ * export const workOrderApi = {
+ *   get: defineGraphQL<{ workOrder: WorkOrder }, { id: string }>()({
+ *     query: `query GetWorkOrder($id: ID!) { workOrder(id: $id) { id status } }`,
+ *     persisted: true,
+ *   }),
+ * };
+ *
+ * const response = await apiClient.fetch(workOrderApi.get({ id: 'WO-1' }));
+ * // response: ApiResponse<{ workOrder: WorkOrder }>
+ */
+export const defineGraphQL = <TData = unknown, TVars = void>() => {
+  return (definition: GraphQLDefinition<TVars, TData>): GraphQLEndpoint<TVars, TData> => {
+    const { query, operationName, persisted, method = 'POST', url = API_CONFIG.GRAPHQL_URL, ...spec } = definition;
+
+    const endpoint = (variables?: TVars): ApiSpec<TVars, TData> => ({
+      ...spec,
+      method,
+      url,
+      data: variables,
+      graphql: { query, operationName, persisted },
+    });
+
+    return Object.assign(endpoint, { query }) as GraphQLEndpoint<TVars, TData>;
+  };
+};
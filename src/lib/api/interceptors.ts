@@ -0,0 +1,160 @@
+/**
+ * API 인터셉터 (미들웨어)
+ *
+ * 왜 필요한가?
+ * - 헤더 추가, 로깅, 에러 변환을 위해 api-client.ts를 직접 수정하지 않도록 함
+ * - entities 모듈(예: entities/auth)이 자신에게 필요한 동작을 스스로 등록
+ * - axios의 interceptors와 비슷한 사용법으로 학습 비용 최소화
+ *
+ * 실행 순서:
+ * 1. request 인터셉터 (등록 순서대로)
+ *    - ApiRequest를 반환하면 다음 인터셉터로 전달
+ *    - ApiResponse를 반환하면 네트워크 요청 없이 즉시 응답 (short-circuit)
+ * 2. 네트워크 요청 (재시도 포함)
+ * 3. response 인터셉터 (등록 순서대로)
+ *    - 성공 응답 → onFulfilled
+ *    - 실패 응답 → onRejected
+ */
+
+import type { ApiResponse, ApiResponseType, HttpMethod } from '../types';
+import type { RetryPolicy } from './retry';
+import type { UploadProgress } from './upload';
+
+/**
+ * 요청 메타데이터
+ *
+ * 왜 필요한가?
+ * - 인터셉터에 요청별 플래그를 전달하기 위한 통로 (서버로 전송되지 않음)
+ * - 새 인터셉터가 필요한 키를 자유롭게 추가할 수 있도록 인덱스 시그니처 허용
+ */
+export interface RequestMeta {
+  /** 401 응답 시 토큰 갱신을 시도하지 않음 (refresh API 자체 등) */
+  skipAuthRefresh?: boolean;
+  [key: string]: unknown;
+}
+
+/**
+ * 인터셉터에 전달되는 요청 정보
+ *
+ * 왜 RequestInit을 그대로 쓰지 않는가?
+ * - headers를 Headers 객체로 통일하여 인터셉터에서 set/delete로 쉽게 수정
+ * - data는 직렬화 전 원본을 유지하여 인터셉터가 값을 바꿀 수 있음
+ */
+export interface ApiRequest {
+  /** 요청 ID (X-Request-Id 헤더, 재시도/재전송 시에도 유지) */
+  id: string;
+  /** 최종 요청 URL (baseURL, query string 포함) */
+  url: string;
+  /** HTTP 메서드 */
+  method: HttpMethod;
+  /** 요청 헤더 */
+  headers: Headers;
+  /** 요청 데이터 (POST/PUT/PATCH는 전송 직전에 JSON 직렬화, FormData는 그대로 전송) */
+  data?: unknown;
+  /** 그 외 fetch 옵션 (credentials, mode, cache 등) */
+  init: Omit<RequestInit, 'method' | 'headers' | 'body'>;
+  /** 타임아웃 (밀리초) */
+  timeout: number;
+  /** 재시도 정책 */
+  retry: RetryPolicy;
+  /** 응답 본문 파싱 방식 */
+  responseType: ApiResponseType;
+  /** 요청 메타데이터 (인터셉터 전용) */
+  meta: RequestMeta;
+  /** 업로드 진행률 콜백 (있으면 XHR로 전송) */
+  onUploadProgress?: (progress: UploadProgress) => void;
+}
+
+/**
+ * 응답 인터셉터에 전달되는 컨텍스트
+ */
+export interface ResponseContext {
+  /** 응답을 만든 요청 */
+  request: ApiRequest;
+  /**
+   * 같은 요청을 다시 전송
+   *
+   * 왜 필요한가?
+   * - 토큰 갱신 후 원래 요청을 재실행하는 등의 시나리오 지원
+   * - 인터셉터를 다시 거치지 않으므로 무한 루프 위험 없음
+   */
+  replay: () => Promise<ApiResponse<unknown>>;
+}
+
+/** 요청 인터셉터 */
+export type RequestInterceptor = (
+  request: ApiRequest
+) => ApiRequest | ApiResponse<unknown> | Promise<ApiRequest | ApiResponse<unknown>>;
+
+/** 응답 인터셉터 (성공/실패 공통 시그니처) */
+export type ResponseInterceptor = (
+  response: ApiResponse<unknown>,
+  context: ResponseContext
+) => ApiResponse<unknown> | Promise<ApiResponse<unknown>>;
+
+/**
+ * 인터셉터 핸들러 쌍
+ */
+interface InterceptorHandler<TFulfilled, TRejected> {
+  fulfilled?: TFulfilled;
+  rejected?: TRejected;
+}
+
+/**
+ * 인터셉터 관리 클래스
+ *
+ * 왜 use()가 해제 함수를 반환하는가?
+ * - useEffect의 cleanup으로 바로 넘길 수 있음
+ * - id를 따로 보관할 필요 없음
+ *
+ * @example
+ * const remove = apiClient.interceptors.request.use((request) => {
+ *   request.headers.set('X-Client', 'mes-web');
+ *   return request;
+ * });
+ * remove(); // 인터셉터 해제
+ */
+export class InterceptorManager<TFulfilled, TRejected = never> {
+  private handlers = new Map<number, InterceptorHandler<TFulfilled, TRejected>>();
+  private nextId = 0;
+
+  /**
+   * 인터셉터 등록
+   *
+   * @param fulfilled - 요청 인터셉터 또는 성공 응답 인터셉터
+   * @param rejected - 실패 응답 인터셉터 (response 인터셉터에서만 사용)
+   * @returns 등록 해제 함수
+   */
+  use = (fulfilled?: TFulfilled, rejected?: TRejected): (() => void) => {
+    const id = this.nextId++;
+    this.handlers.set(id, { fulfilled, rejected });
+
+    return () => {
+      this.handlers.delete(id);
+    };
+  };
+
+  /**
+   * 등록된 모든 인터셉터 해제
+   */
+  clear = (): void => {
+    this.handlers.clear();
+  };
+
+  /**
+   * 등록 순서대로 핸들러 목록 반환
+   *
+   * 왜 복사본을 반환하는가?
+   * - 실행 도중 인터셉터가 해제/추가되어도 현재 요청의 순서는 유지
+   */
+  getHandlers = (): InterceptorHandler<TFulfilled, TRejected>[] => {
+    return Array.from(this.handlers.values());
+  };
+}
+
+/**
+ * 요청 인터셉터 반환값이 ApiResponse인지 확인 (short-circuit 판단)
+ */
+export const isApiResponse = (value: ApiRequest | ApiResponse<unknown>): value is ApiResponse<unknown> => {
+  return 'success' in value && 'statusCode' in value;
+};
@@ -0,0 +1,313 @@
+/**
+ * 메모리 Mock Transport (백엔드 없이 개발/데모)
+ *
+ * 왜 필요한가?
+ * - 백엔드가 없으면 로그인, /api/user/me, SSO 401 흐름을 확인할 방법이 없음
+ * - api.ts 함수 안에 Mock 분기를 두면 실제 호출 경로(인터셉터, 재시도, 에러 분류)를 검증할 수 없음
+ * - 전송 계층만 바꾸면 나머지 코드는 실제 서버를 쓸 때와 완전히 동일하게 동작
+ *
+ * 사용 방식:
+ * 1. entities 모듈이 mockTransport.register()로 자신의 route 등록 (예: entities/auth/mocks.ts)
+ * 2. window.__ENV__.API_MOCK = true → EnvProvider가 apiClient.setTransport(mockTransport.handle)
+ *
+ * URL 매칭:
+ * - '/users/:id' 형식의 패턴 또는 정규식
+ * - baseURL의 경로 접두사(예: /api)는 무시하고 경로 끝부분으로 매칭
+ * - 먼저 등록된 route가 우선
+ */
+
+import { apiClient } from '../api-client';
+import { createAbortError } from './signal';
+import { fetchTransport, type Transport } from './transport';
+import type { HttpMethod } from '../types';
+
+/**
+ * Mock 핸들러에 전달되는 요청 정보
+ */
+export interface MockRequest {
+  /** HTTP 메서드 */
+  method: HttpMethod;
+  /** 요청 URL */
+  url: URL;
+  /** 경로 파라미터 (예: /users/:id → { id: '1' }) */
+  params: Record<string, string>;
+  /** Query String */
+  query: URLSearchParams;
+  /** 요청 본문 (JSON이면 파싱된 객체, FormData는 그대로 - 핸들러에서 타입 지정) */
+  body: unknown;
+  /** 요청 헤더 */
+  headers: Headers;
+}
+
+/**
+ * Mock 응답
+ */
+export interface MockResponse {
+  /** HTTP 상태 코드 (기본값: 200) */
+  status?: number;
+  /** 응답 본문 (JSON 직렬화, Blob/문자열은 그대로) */
+  body?: unknown;
+  /** 응답 헤더 */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Mock route 정의
+ */
+export interface MockRoute {
+  /** HTTP 메서드 */
+  method: HttpMethod;
+  /** URL 패턴 ('/users/:id') 또는 정규식 (named group이 params로 전달) */
+  url: string | RegExp;
+  /** 고정 응답 (fixture) - handler가 없을 때 사용 */
+  response?: MockResponse;
+  /** 동적 응답 함수 - 요청 내용에 따라 응답 결정 */
+  handler?: (request: MockRequest) => MockResponse | Promise<MockResponse>;
+  /** 이 route만의 지연 시간 (밀리초, 전역 latency보다 우선) */
+  latency?: number;
+  /** 에러 주입 (network: 연결 실패) */
+  error?: 'network';
+}
+
+/**
+ * Mock Transport 설정
+ */
+export interface MockTransportOptions {
+  /** 응답 지연 시간 (밀리초 또는 [최소, 최대] 범위) */
+  latency?: number | [number, number];
+  /**
+   * 무작위 에러 주입 비율 (0 ~ 1)
+   *
+   * 왜 필요한가?
+   * - 재시도, 에러 UI를 백엔드 장애 없이 확인
+   */
+  errorRate?: number;
+  /** 등록되지 않은 요청을 실제 서버로 전송 (기본값: false → 404) */
+  passthrough?: boolean;
+}
+
+/**
+ * 컴파일된 route
+ */
+interface CompiledRoute {
+  route: MockRoute;
+  pattern: RegExp;
+}
+
+/**
+ * URL 패턴 → 정규식 ('/users/:id' → /\/users\/(?<id>[^/]+)\/?$/)
+ */
+const compilePattern = (url: string | RegExp): RegExp => {
+  if (url instanceof RegExp) {
+    return url;
+  }
+
+  const path = url.split('?')[0].replace(/\/+$/, '');
+  const source = path
+    .split('/')
+    .map((segment) =>
+      segment.startsWith(':')
+        ? `(?<${segment.slice(1)}>[^/]+)`
+        : segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    )
+    .join('/');
+
+  return new RegExp(`${source}/?$`);
+};
+
+/**
+ * 요청 본문 파싱
+ */
+const parseBody = (body: RequestInit['body']): unknown => {
+  if (typeof body !== 'string') {
+    return body ?? undefined;
+  }
+
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+};
+
+/**
+ * 지연 (signal로 중단 가능)
+ */
+const delay = (ms: number, signal?: AbortSignal | null): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason ?? createAbortError());
+      return;
+    }
+
+    const handleAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal?.reason ?? createAbortError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', handleAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', handleAbort, { once: true });
+  });
+};
+
+/**
+ * MockResponse → Response
+ */
+const toResponse = ({ status = 200, body, headers }: MockResponse): Response => {
+  const responseHeaders = new Headers(headers);
+  const isRawBody = typeof body === 'string' || body instanceof Blob || body instanceof ArrayBuffer;
+
+  if (body !== undefined && !isRawBody && !responseHeaders.has('Content-Type')) {
+    responseHeaders.set('Content-Type', 'application/json');
+  }
+
+  // 204, 304 등은 본문을 가질 수 없음 (Response 생성자 제약)
+  const hasBody = body !== undefined && ![204, 205, 304].includes(status);
+  const responseBody = hasBody ? (isRawBody ? (body as BodyInit) : JSON.stringify(body)) : null;
+
+  return new Response(responseBody, { status, headers: responseHeaders });
+};
+
+/**
+ * Mock Transport 클래스
+ *
+ * @example
+ * mockTransport.register([
+ *   { method: 'GET', url: '/users/:id', handler: ({ params }) => ({ body: { id: params.id } }) },
+ *   { method: 'DELETE', url: '/users/:id', response: { status: 204 } },
+ *   { method: 'GET', url: '/reports', error: 'network' },
+ * ]);
+ *
+ * mockTransport.configure({ latency: [200, 800], errorRate: 0.1 });
+ * apiClient.setTransport(mockTransport.handle);
+ */
+export class MockTransport {
+  private routes: CompiledRoute[] = [];
+  private options: MockTransportOptions = { latency: 300 };
+
+  /**
+   * route 등록
+   *
+   * @returns 등록 해제 함수
+   */
+  register = (routes: MockRoute[]): (() => void) => {
+    const compiled = routes.map((route) => ({ route, pattern: compilePattern(route.url) }));
+    this.routes.push(...compiled);
+
+    return () => {
+      this.routes = this.routes.filter((item) => !compiled.includes(item));
+    };
+  };
+
+  /**
+   * 지연 시간, 에러 주입 등 설정 변경 (undefined 값은 기존 설정 유지)
+   */
+  configure = (options: MockTransportOptions): void => {
+    Object.entries(options).forEach(([key, value]) => {
+      if (value !== undefined) {
+        (this.options as Record<string, unknown>)[key] = value;
+      }
+    });
+  };
+
+  /**
+   * 등록된 route 모두 삭제
+   */
+  reset = (): void => {
+    this.routes = [];
+  };
+
+  /**
+   * Transport 구현 (apiClient.setTransport에 전달)
+   */
+  handle: Transport = async (url, init, request) => {
+    const requestURL = new URL(url, typeof window === 'undefined' ? 'http://localhost' : window.location.origin);
+    const matched = this.match(request.method, requestURL.pathname);
+
+    // 1. 등록되지 않은 요청
+    if (!matched) {
+      if (this.options.passthrough) {
+        return fetchTransport(url, init, request);
+      }
+      apiClient.tracer.event(request.id, `Mock route not found: ${request.method} ${requestURL.pathname}`, 'warn');
+      await delay(this.getLatency(), init.signal);
+      return toResponse({ status: 404, body: { message: `Mock route not found: ${request.method} ${requestURL.pathname}` } });
+    }
+
+    const { route, params } = matched;
+
+    // 2. 지연 (중단 가능)
+    await delay(route.latency ?? this.getLatency(), init.signal);
+
+    // 3. 에러 주입
+    if (route.error === 'network') {
+      throw new TypeError('Failed to fetch (mock network error)');
+    }
+    if (this.options.errorRate && Math.random() < this.options.errorRate) {
+      return toResponse({ status: 503, body: { message: 'Mock error injection' } });
+    }
+
+    // 4. 응답 생성
+    const mockResponse = route.handler
+      ? await route.handler({
+          method: request.method,
+          url: requestURL,
+          params,
+          query: requestURL.searchParams,
+          body: parseBody(init.body),
+          headers: new Headers(init.headers),
+        })
+      : route.response ?? {};
+
+    return toResponse(mockResponse);
+  };
+
+  /**
+   * 메서드 + 경로로 route 검색
+   */
+  private match = (
+    method: HttpMethod,
+    pathname: string
+  ): { route: MockRoute; params: Record<string, string> } | null => {
+    for (const { route, pattern } of this.routes) {
+      if (route.method !== method) {
+        continue;
+      }
+
+      const result = pattern.exec(pathname);
+      if (result) {
+        const params: Record<string, string> = {};
+        Object.entries(result.groups ?? {}).forEach(([key, value]) => {
+          params[key] = decodeURIComponent(value);
+        });
+        return { route, params };
+      }
+    }
+
+    return null;
+  };
+
+  /**
+   * 전역 지연 시간 계산
+   */
+  private getLatency = (): number => {
+    const { latency = 0 } = this.options;
+    if (Array.isArray(latency)) {
+      const [min, max] = latency;
+      return Math.round(min + Math.random() * (max - min));
+    }
+    return latency;
+  };
+}
+
+/**
+ * Mock Transport 싱글톤
+ *
+ * 왜 싱글톤인가?
+ * - 여러 entities 모듈이 같은 인스턴스에 route를 등록하고,
+ *   EnvProvider가 설정에 따라 apiClient에 연결
+ */
+export const mockTransport = new MockTransport();
@@ -0,0 +1,238 @@
+/**
+ * 오프라인 변경 요청 큐
+ *
+ * 왜 필요한가?
+ * - 현장 태블릿은 Wi-Fi가 자주 끊기는데, 끊긴 동안의 POST/PUT/PATCH/DELETE는 statusCode 0으로 실패하고 입력이 사라짐
+ * - 오프라인 중 변경 요청을 LocalStorage에 보관했다가 연결이 돌아오면 순서대로 재전송
+ *
+ * 왜 Idempotency-Key를 붙이는가?
+ * - 연결이 끊기는 순간 보낸 요청은 서버에 도착했는지 알 수 없음
+ * - 재전송 시 같은 키를 보내면 서버가 중복 처리를 막을 수 있음
+ *
+ * 재전송 결과:
+ * - success: 성공 → 큐에서 제거
+ * - conflict: 409/412 (그 사이 다른 사용자가 수정) → 큐에서 제거, 구독자가 사용자에게 안내
+ * - failed: 그 외 4xx → 큐에서 제거 (다시 보내도 같은 결과)
+ * - 네트워크 에러/5xx/429: 재전송 중단, 큐 유지 (다음 online 이벤트에 다시 시도)
+ */
+
+import type { ApiResponse, ApiServiceName, HttpMethod } from '../types';
+import type { RequestMeta } from './interceptors';
+import { LocalStorage } from '../storage';
+import { HTTP_STATUS } from '../constants';
+
+/**
+ * 멱등성 키 헤더 이름
+ */
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * 큐에 보관된 변경 요청
+ *
+ * 왜 baseURL을 제외한 URL을 저장하는가?
+ * - 다음 접속 때 EnvProvider가 주입한 baseURL 기준으로 재전송
+ */
+export interface QueuedMutation {
+  /** 멱등성 키 (Idempotency-Key 헤더, 큐 항목 ID) */
+  id: string;
+  /** HTTP 메서드 (GET 제외) */
+  method: Exclude<HttpMethod, 'GET'>;
+  /** 요청 URL (DELETE는 query string 포함) */
+  url: string;
+  /** 요청을 보낼 서비스 (기본값: 'core') */
+  service?: ApiServiceName;
+  /** 요청 본문 (JSON 직렬화 가능한 값만) */
+  data?: unknown;
+  /** 호출부가 지정한 헤더 */
+  headers?: Record<string, string>;
+  /** 요청 메타데이터 */
+  meta?: RequestMeta;
+  /** 큐에 추가된 시각 (타임스탬프) */
+  queuedAt: number;
+}
+
+/**
+ * 재전송 결과 상태
+ */
+export type ReplayStatus = 'success' | 'conflict' | 'failed';
+
+/**
+ * 재전송 결과 (구독자에게 전달)
+ */
+export interface ReplayResult {
+  /** 재전송한 요청 */
+  mutation: QueuedMutation;
+  /** 결과 상태 */
+  status: ReplayStatus;
+  /** 서버 응답 */
+  response: ApiResponse<unknown>;
+}
+
+/**
+ * 큐 항목을 실제로 전송하는 함수 (ApiClient가 주입)
+ */
+export type MutationSender = (mutation: QueuedMutation) => Promise<ApiResponse<unknown>>;
+
+/**
+ * 브라우저가 오프라인 상태인지 확인
+ *
+ * 왜 navigator.onLine === false로 비교하는가?
+ * - SSR 등 navigator가 없는 환경은 온라인으로 간주
+ */
+export const isOffline = (): boolean => {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+};
+
+/**
+ * 나중에 다시 보내야 하는 응답인지 확인 (네트워크 에러, 서버 일시 장애)
+ */
+const shouldKeepQueued = (response: ApiResponse<unknown>): boolean => {
+  return response.statusCode === 0 || response.statusCode === 429 || response.statusCode >= 500;
+};
+
+/**
+ * 재전송 응답을 결과 상태로 분류
+ */
+const getReplayStatus = (response: ApiResponse<unknown>): ReplayStatus => {
+  if (response.success) {
+    return 'success';
+  }
+  if (response.statusCode === HTTP_STATUS.CONFLICT || response.statusCode === HTTP_STATUS.PRECONDITION_FAILED) {
+    return 'conflict';
+  }
+  return 'failed';
+};
+
+/**
+ * 오프라인 큐 클래스
+ *
+ * @example
+ * // 재전송 결과 구독 (충돌 안내 등)
+ * const unsubscribe = apiClient.offlineQueue.onResult(({ mutation, status }) => {
+ *   if (status === 'conflict') toast.warn(`${mutation.url} 변경 사항이 다른 수정과 충돌했습니다`);
+ * });
+ */
+export class OfflineQueue {
+  private items: QueuedMutation[];
+  private listeners = new Set<() => void>();
+  private resultListeners = new Set<(result: ReplayResult) => void>();
+  private replaying: Promise<void> | null = null;
+
+  /**
+   * @param storageKey - LocalStorage 키
+   */
+  constructor(private readonly storageKey: string) {
+    this.items = LocalStorage.getItem<QueuedMutation[]>(storageKey) ?? [];
+  }
+
+  /**
+   * 변경 요청 추가
+   */
+  enqueue = (mutation: Omit<QueuedMutation, 'queuedAt'>): QueuedMutation => {
+    const queued: QueuedMutation = { ...mutation, queuedAt: Date.now() };
+
+    // 같은 멱등성 키는 한 번만 보관
+    this.items = [...this.items.filter((item) => item.id !== queued.id), queued];
+    this.persist();
+
+    return queued;
+  };
+
+  /**
+   * 대기 중인 요청 목록 (오래된 순)
+   *
+   * 왜 같은 배열 참조를 반환하는가?
+   * - useSyncExternalStore의 스냅샷으로 사용 (변경이 있을 때만 새 배열 생성)
+   */
+  getItems = (): QueuedMutation[] => {
+    return this.items;
+  };
+
+  /**
+   * 요청 제거 (사용자가 대기 중인 변경을 취소하는 경우 등)
+   */
+  remove = (id: string): void => {
+    this.items = this.items.filter((item) => item.id !== id);
+    this.persist();
+  };
+
+  /**
+   * 전체 삭제 (로그아웃 시 등)
+   */
+  clear = (): void => {
+    this.items = [];
+    this.persist();
+  };
+
+  /**
+   * 큐 변경 구독
+   *
+   * @returns 구독 해제 함수
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * 재전송 결과 구독
+   *
+   * @returns 구독 해제 함수
+   */
+  onResult = (listener: (result: ReplayResult) => void): (() => void) => {
+    this.resultListeners.add(listener);
+    return () => {
+      this.resultListeners.delete(listener);
+    };
+  };
+
+  /**
+   * 대기 중인 요청을 순서대로 재전송
+   *
+   * 왜 한 건씩 순서대로 보내는가?
+   * - "등록 → 수정"처럼 앞 요청에 의존하는 변경이 있으므로 순서 보장 필요
+   *
+   * 왜 진행 중인 재전송을 공유하는가?
+   * - online 이벤트와 수동 재전송이 겹쳐도 같은 요청을 두 번 보내지 않도록
+   */
+  replay = (send: MutationSender): Promise<void> => {
+    if (!this.replaying) {
+      this.replaying = this.drain(send).finally(() => {
+        this.replaying = null;
+      });
+    }
+    return this.replaying;
+  };
+
+  private drain = async (send: MutationSender): Promise<void> => {
+    while (this.items.length > 0 && !isOffline()) {
+      const mutation = this.items[0];
+      const response = await send(mutation);
+
+      // 여전히 연결이 불안정하면 큐를 유지하고 다음 기회에 재시도
+      if (shouldKeepQueued(response)) {
+        return;
+      }
+
+      this.remove(mutation.id);
+
+      const result: ReplayResult = { mutation, status: getReplayStatus(response), response };
+      this.resultListeners.forEach((listener) => listener(result));
+    }
+  };
+
+  /**
+   * LocalStorage 저장 + 구독자 알림
+   */
+  private persist = (): void => {
+    if (this.items.length > 0) {
+      LocalStorage.setItem(this.storageKey, this.items);
+    } else {
+      LocalStorage.removeItem(this.storageKey);
+    }
+
+    this.listeners.forEach((listener) => listener());
+  };
+}
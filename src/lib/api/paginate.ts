@@ -0,0 +1,469 @@
+/**
+ * 페이지 순회 (page/offset, cursor, Link 헤더)
+ *
+ * 왜 필요한가?
+ * - 엑셀 내보내기, 전체 선택 등은 여러 페이지를 이어서 불러와야 하는데
+ *   화면마다 while 반복문으로 다음 페이지 조건을 직접 구현하면 종료 조건 실수(무한 반복, 마지막 페이지 누락)가 생김
+ * - 백엔드마다 페이지 방식이 달라 같은 반복문을 재사용할 수 없음
+ *
+ * 지원 방식 (mode):
+ * - page: page=1,2,3... (PaginatedResponse.meta.hasNextPage/totalPages 또는 X-Total-Count로 종료)
+ * - offset: offset=0,limit,2*limit... (전체 건수 또는 limit보다 적은 페이지로 종료)
+ * - cursor: 응답의 다음 커서(nextCursor)로 다음 페이지 요청 (커서가 없으면 종료)
+ * - link: 응답 Link 헤더의 rel="next" URL로 다음 페이지 요청 (GitHub 방식)
+ *
+ * 왜 실패 시 예외를 던지지 않는가?
+ * - apiClient의 다른 메서드와 같이 실패를 ApiResponse로 전달 (paginator.failure, fetchAll 결과)
+ */
+
+import type { RequestOptions } from '../api-client';
+import type { ApiResponse, ApiSpec, PaginatedResponse } from '../types';
+import { API_CONFIG, HTTP_STATUS, PAGINATION } from '../constants';
+
+/**
+ * 페이지 방식
+ */
+export type PaginationMode = 'page' | 'offset' | 'cursor' | 'link';
+
+/**
+ * 명세 함수에 전달되는 페이지 요청 정보
+ *
+ * 방식에 맞는 값만 골라서 사용
+ *
+ * @example
+ * (request) => orderApi.list({ page: request.page, limit: request.limit })
+ * (request) => logApi.list({ cursor: request.cursor, size: request.limit })
+ */
+export interface PageRequest {
+  /** 페이지 번호 (startPage부터 1씩 증가) */
+  page: number;
+  /** 시작 위치 (0부터, 받은 항목 수만큼 증가) */
+  offset: number;
+  /** 페이지 크기 */
+  limit: number;
+  /** 다음 페이지 커서 (cursor 방식, 첫 페이지는 undefined) */
+  cursor?: string;
+}
+
+/**
+ * 순회 중 전달되는 페이지
+ */
+export interface Page<TItem, TResponse> {
+  /** 이 페이지의 항목 */
+  items: TItem[];
+  /** 페이지 순번 (0부터) */
+  index: number;
+  /** 이 페이지를 요청한 정보 */
+  request: PageRequest;
+  /** 원본 응답 (headers, 메타 정보 등) */
+  response: ApiResponse<TResponse>;
+}
+
+/**
+ * 응답 타입에서 항목 타입 추론 (PaginatedResponse<T> 또는 T[])
+ */
+export type PageItem<TResponse> =
+  TResponse extends PaginatedResponse<infer T> ? T : TResponse extends (infer T)[] ? T : unknown;
+
+/**
+ * 페이지 순회 설정
+ */
+export interface PaginateOptions<TResponse, TItem> {
+  /** 페이지 방식 (기본값: 'page') */
+  mode?: PaginationMode;
+  /** 페이지 크기 (기본값: PAGINATION.DEFAULT_PAGE_SIZE) */
+  limit?: number;
+  /** 시작 페이지 번호 (기본값: PAGINATION.DEFAULT_PAGE) */
+  startPage?: number;
+  /**
+   * 최대 페이지 수 (기본값: API_CONFIG.PAGINATE_MAX_PAGES)
+   *
+   * 왜 필요한가?
+   * - 서버가 다음 페이지 조건을 잘못 내려주면 무한히 요청하게 됨
+   * - 도달하면 순회를 멈추고 paginator.truncated = true
+   */
+  maxPages?: number;
+  /** fetchAll() 동시 요청 수 (기본값: API_CONFIG.PAGINATE_CONCURRENCY, page/offset 방식만) */
+  concurrency?: number;
+  /** 취소 signal (진행 중인 요청도 함께 취소) */
+  signal?: AbortSignal;
+  /** 모든 페이지 요청에 적용할 옵션 */
+  requestOptions?: RequestOptions;
+  /** 응답 → 항목 목록 (기본값: 배열이면 그대로, 아니면 items 또는 data) */
+  getItems?: (data: TResponse) => TItem[];
+  /** 응답 → 다음 커서 (cursor 방식, 기본값: nextCursor, meta.nextCursor 또는 X-Next-Cursor 헤더) */
+  getNextCursor?: (data: TResponse, response: ApiResponse<TResponse>) => string | null | undefined;
+}
+
+/**
+ * 명세 실행 함수 (apiClient.fetch)
+ */
+export type SpecFetcher = <T>(apiSpec: ApiSpec<any, T>, options?: RequestOptions) => Promise<ApiResponse<T>>;
+
+/**
+ * Link 헤더 파싱
+ *
+ * @example
+ * parseLinkHeader('<https://api.example.com/items?page=2>; rel="next", <...?page=5>; rel="last"')
+ * // => { next: 'https://api.example.com/items?page=2', last: '...?page=5' }
+ */
+export const parseLinkHeader = (value?: string | null): Record<string, string> => {
+  const links: Record<string, string> = {};
+  if (!value) {
+    return links;
+  }
+
+  value.split(/,(?=\s*<)/).forEach((part) => {
+    const match = /<([^>]*)>(.*)/.exec(part.trim());
+    const rel = match && /rel="?([^";]+)"?/i.exec(match[2]);
+    if (match && rel) {
+      // rel="next prev"처럼 여러 값을 가질 수 있음
+      rel[1].split(/\s+/).forEach((name) => {
+        links[name.toLowerCase()] = match[1];
+      });
+    }
+  });
+
+  return links;
+};
+
+/**
+ * 객체 형태의 값인지 확인 (응답 본문, meta)
+ */
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null;
+};
+
+/**
+ * 응답 본문의 meta 객체 (PaginatedResponse.meta, 없으면 빈 객체)
+ */
+const getMeta = (data: unknown): Record<string, unknown> => {
+  const meta = isRecord(data) ? data.meta : undefined;
+  return isRecord(meta) ? meta : {};
+};
+
+/**
+ * 커서 값 정규화 (숫자 커서는 문자열로, 그 외 형식은 없는 것으로 처리)
+ */
+const toCursor = (value: unknown): string | null | undefined => {
+  if (value === null) return null;
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return String(value);
+  return undefined;
+};
+
+/**
+ * 기본 항목 추출
+ */
+const defaultGetItems = (data: unknown): unknown[] => {
+  if (Array.isArray(data)) return data;
+  if (isRecord(data) && Array.isArray(data.items)) return data.items;
+  if (isRecord(data) && Array.isArray(data.data)) return data.data;
+  return [];
+};
+
+/**
+ * 기본 다음 커서 추출
+ */
+const defaultGetNextCursor = (data: unknown, response: ApiResponse<unknown>): string | null | undefined => {
+  return (
+    toCursor(isRecord(data) ? data.nextCursor : undefined) ??
+    toCursor(getMeta(data).nextCursor) ??
+    response.headers?.['x-next-cursor']
+  );
+};
+
+/**
+ * 전체 항목 수 (PaginatedResponse.meta.totalItems 또는 X-Total-Count 헤더)
+ */
+const getTotalItems = (response: ApiResponse<unknown>): number | null => {
+  const totalItems = getMeta(response.data).totalItems;
+  const total = typeof totalItems === 'number' ? totalItems : Number(response.headers?.['x-total-count']);
+  return Number.isFinite(total) ? total : null;
+};
+
+/**
+ * 페이지 순회 클래스
+ *
+ * 왜 async iterator인가?
+ * - for await로 한 페이지씩 처리하면 수만 건도 메모리에 모두 올리지 않고 처리 가능
+ * - 중간에 break하면 다음 페이지를 요청하지 않음
+ *
+ * @example
+ * const paginator = apiClient.paginate((request) => orderApi.list({ page: request.page, limit: 100 }), { limit: 100 });
+ *
+ * for await (const order of paginator) {
+ *   rows.push(toRow(order));
+ * }
+ * if (paginator.failure) toast.error(paginator.failure.error?.message);
+ */
+export class Paginator<TItem, TResponse> implements AsyncIterable<TItem> {
+  /** 마지막 순회에서 실패한 페이지 응답 (취소 포함, 성공적으로 끝나면 null) */
+  failure: ApiResponse<TResponse> | null = null;
+  /** 마지막 순회가 maxPages에 도달하여 멈췄는지 여부 */
+  truncated = false;
+
+  private options: Required<Omit<PaginateOptions<TResponse, TItem>, 'signal' | 'requestOptions'>> &
+    Pick<PaginateOptions<TResponse, TItem>, 'signal' | 'requestOptions'>;
+
+  /**
+   * @param fetcher - 명세 실행 함수 (apiClient.fetch)
+   * @param factory - 페이지 요청 정보 → API 명세
+   * @param options - 페이지 방식, 크기, 최대 페이지 수 등
+   * @param onWarn - maxPages 도달 등 경고 기록 (추적 기록용)
+   */
+  constructor(
+    private fetcher: SpecFetcher,
+    private factory: (request: PageRequest) => ApiSpec<any, TResponse>,
+    options: PaginateOptions<TResponse, TItem> = {},
+    private onWarn?: (message: string) => void
+  ) {
+    this.options = {
+      mode: options.mode ?? 'page',
+      limit: options.limit ?? PAGINATION.DEFAULT_PAGE_SIZE,
+      startPage: options.startPage ?? PAGINATION.DEFAULT_PAGE,
+      maxPages: options.maxPages ?? API_CONFIG.PAGINATE_MAX_PAGES,
+      concurrency: options.concurrency ?? API_CONFIG.PAGINATE_CONCURRENCY,
+      getItems: options.getItems ?? (defaultGetItems as (data: TResponse) => TItem[]),
+      getNextCursor: options.getNextCursor ?? defaultGetNextCursor,
+      signal: options.signal,
+      requestOptions: options.requestOptions,
+    };
+  }
+
+  /**
+   * 항목 단위 순회
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<TItem> {
+    for await (const page of this.pages()) {
+      yield* page.items;
+    }
+  }
+
+  /**
+   * 페이지 단위 순회 (응답 헤더, 페이지 번호가 필요할 때)
+   *
+   * 실패/취소/maxPages 도달 시 순회를 멈추고 failure/truncated에 기록
+   */
+  async *pages(): AsyncGenerator<Page<TItem, TResponse>> {
+    const { startPage, limit, maxPages } = this.options;
+    this.failure = null;
+    this.truncated = false;
+
+    let request: PageRequest = { page: startPage, offset: 0, limit };
+    let spec = this.factory(request);
+
+    for (let index = 0; ; index++) {
+      if (index >= maxPages) {
+        this.markTruncated();
+        return;
+      }
+
+      const response = await this.fetchPage(spec);
+      if (!response.success) {
+        this.failure = response;
+        return;
+      }
+
+      const items = this.options.getItems(response.data as TResponse);
+      yield { items, index, request, response };
+
+      const next = this.getNext(request, spec, response, items);
+      if (!next) {
+        return;
+      }
+      [request, spec] = next;
+    }
+  }
+
+  /**
+   * 모든 페이지의 항목을 모아서 반환 (내보내기 등)
+   *
+   * 왜 page/offset 방식만 동시에 요청하는가?
+   * - 첫 페이지의 전체 건수로 나머지 페이지 번호를 미리 알 수 있음
+   * - cursor/link 방식은 이전 응답이 있어야 다음 요청을 만들 수 있어 순서대로 요청
+   *
+   * @returns 성공: 전체 항목 (첫 페이지 응답 기준, 요청한 페이지가 없으면 빈 배열), 실패: 처음 실패한 페이지 응답
+   */
+  fetchAll = async (): Promise<ApiResponse<TItem[]>> => {
+    const { mode, concurrency, maxPages } = this.options;
+
+    if ((mode === 'page' || mode === 'offset') && concurrency > 1 && maxPages > 0) {
+      return this.fetchAllConcurrently();
+    }
+
+    const items: TItem[] = [];
+    let first: ApiResponse<TResponse> | null = null;
+    for await (const page of this.pages()) {
+      first ??= page.response;
+      items.push(...page.items);
+    }
+
+    if (this.failure) {
+      return this.failure as ApiResponse<unknown> as ApiResponse<TItem[]>;
+    }
+    // maxPages: 0 등으로 한 페이지도 요청하지 않은 경우에도 성공 응답 형식 유지
+    if (!first) {
+      return { success: true, data: items, statusCode: HTTP_STATUS.OK, timestamp: new Date().toISOString() };
+    }
+    return { ...(first as ApiResponse<unknown>), data: items } as ApiResponse<TItem[]>;
+  };
+
+  /**
+   * 첫 페이지로 전체 페이지 수를 확인한 뒤 나머지를 concurrency개씩 요청
+   */
+  private fetchAllConcurrently = async (): Promise<ApiResponse<TItem[]>> => {
+    const { mode, startPage, limit, maxPages, concurrency, getItems } = this.options;
+    this.failure = null;
+    this.truncated = false;
+
+    const firstRequest: PageRequest = { page: startPage, offset: 0, limit };
+    const first = await this.fetchPage(this.factory(firstRequest));
+    if (!first.success) {
+      this.failure = first;
+      return first as ApiResponse<unknown> as ApiResponse<TItem[]>;
+    }
+
+    const firstItems = getItems(first.data as TResponse);
+    const total = getTotalItems(first);
+    const metaTotalPages = getMeta(first.data).totalPages;
+    const totalPages =
+      typeof metaTotalPages === 'number' ? metaTotalPages : total !== null ? Math.ceil(total / limit) : null;
+
+    // 전체 건수를 알 수 없으면 순서대로 요청 (첫 페이지는 다시 요청)
+    if (totalPages === null) {
+      return this.fetchAllSequentially();
+    }
+
+    let pageCount = Math.max(totalPages, 1);
+    if (pageCount > maxPages) {
+      pageCount = maxPages;
+      this.markTruncated();
+    }
+
+    const requests: PageRequest[] = Array.from({ length: pageCount - 1 }, (_, index) => ({
+      page: startPage + index + 1,
+      offset: mode === 'offset' ? (index + 1) * limit : 0,
+      limit,
+    }));
+
+    // 한 페이지가 실패하면 나머지 요청을 취소
+    const controller = new AbortController();
+    const handleAbort = () => controller.abort();
+    this.options.signal?.addEventListener('abort', handleAbort, { once: true });
+
+    const results: ApiResponse<TResponse>[] = new Array(requests.length);
+    let nextIndex = 0;
+    const worker = async () => {
+      while (nextIndex < requests.length && !controller.signal.aborted) {
+        const index = nextIndex++;
+        const response = await this.fetchPage(this.factory(requests[index]), controller.signal);
+        results[index] = response;
+        if (!response.success) {
+          this.failure ??= response;
+          controller.abort();
+        }
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: Math.min(concurrency, requests.length) }, worker));
+    } finally {
+      this.options.signal?.removeEventListener('abort', handleAbort);
+    }
+
+    if (this.failure || this.options.signal?.aborted) {
+      const failure = this.failure ?? results.find((response) => response && !response.success) ?? first;
+      return failure as ApiResponse<unknown> as ApiResponse<TItem[]>;
+    }
+
+    const items = [firstItems, ...results.map((response) => getItems(response.data as TResponse))].flat();
+    return { ...(first as ApiResponse<unknown>), data: items } as ApiResponse<TItem[]>;
+  };
+
+  /**
+   * 순서대로 모든 페이지 수집 (동시 요청 불가능한 경우)
+   */
+  private fetchAllSequentially = async (): Promise<ApiResponse<TItem[]>> => {
+    const { concurrency } = this.options;
+    this.options.concurrency = 1;
+    try {
+      return await this.fetchAll();
+    } finally {
+      this.options.concurrency = concurrency;
+    }
+  };
+
+  /**
+   * 한 페이지 요청 (취소 signal 적용)
+   */
+  private fetchPage = (spec: ApiSpec<any, TResponse>, signal = this.options.signal): Promise<ApiResponse<TResponse>> => {
+    return this.fetcher(spec, { ...this.options.requestOptions, signal });
+  };
+
+  /**
+   * 다음 페이지 요청 정보 + 명세 (마지막 페이지면 null)
+   */
+  private getNext = (
+    request: PageRequest,
+    spec: ApiSpec<any, TResponse>,
+    response: ApiResponse<TResponse>,
+    items: TItem[]
+  ): [PageRequest, ApiSpec<any, TResponse>] | null => {
+    const nextRequest: PageRequest = {
+      ...request,
+      page: request.page + 1,
+      offset: request.offset + items.length,
+    };
+
+    switch (this.options.mode) {
+      case 'link': {
+        // Link URL에는 query string이 포함되어 있으므로 data 제거
+        const next = parseLinkHeader(response.headers?.link).next;
+        return next ? [nextRequest, { ...spec, url: next, data: undefined }] : null;
+      }
+      case 'cursor': {
+        const cursor = this.options.getNextCursor(response.data as TResponse, response);
+        if (cursor === null || cursor === undefined || cursor === '' || cursor === request.cursor) {
+          return null;
+        }
+        nextRequest.cursor = String(cursor);
+        return [nextRequest, this.factory(nextRequest)];
+      }
+      default: {
+        if (!this.hasNextPage(request, response, items)) {
+          return null;
+        }
+        return [nextRequest, this.factory(nextRequest)];
+      }
+    }
+  };
+
+  /**
+   * page/offset 방식 다음 페이지 존재 여부
+   *
+   * 판단 순서: meta.hasNextPage → 전체 건수 → 받은 항목 수 < limit
+   */
+  private hasNextPage = (request: PageRequest, response: ApiResponse<TResponse>, items: TItem[]): boolean => {
+    if (items.length === 0) {
+      return false;
+    }
+
+    const hasNextPage = getMeta(response.data).hasNextPage;
+    if (typeof hasNextPage === 'boolean') {
+      return hasNextPage;
+    }
+
+    const total = getTotalItems(response);
+    if (total !== null) {
+      return request.offset + items.length < total;
+    }
+
+    return items.length >= request.limit;
+  };
+
+  private markTruncated = (): void => {
+    this.truncated = true;
+    this.onWarn?.(`Pagination stopped at maxPages (${this.options.maxPages})`);
+  };
+}
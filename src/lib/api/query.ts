@@ -0,0 +1,174 @@
+/**
+ * Query String 직렬화
+ *
+ * 왜 URLSearchParams + String(value)로 충분하지 않은가?
+ * - 배열: String(['a', 'b']) → "a,b" (백엔드마다 기대하는 형식이 다름)
+ * - 객체: String({}) → "[object Object]"
+ * - Date: String(date) → 로케일 의존 문자열 (서버에서 파싱 불가)
+ *
+ * 지원 형식:
+ * - 배열: repeat(ids=1&ids=2), brackets(ids[]=1&ids[]=2), comma(ids=1,2)
+ * - 중첩 객체: bracket 표기 (search[name]=kim)
+ * - Date: ISO 8601 (serializeDate로 변경 가능)
+ * - 필터 조건(FilterCondition): filters[status][in]=A,B
+ */
+
+import { API_CONFIG } from '../constants';
+import type { FilterCondition, FilterOperator } from '../types';
+
+/**
+ * 배열 직렬화 형식
+ */
+export type ArrayFormat = 'repeat' | 'brackets' | 'comma';
+
+/**
+ * 직렬화 옵션
+ */
+export interface QuerySerializerOptions {
+  /** 배열 형식 (기본값: API_CONFIG.QUERY_ARRAY_FORMAT) */
+  arrayFormat?: ArrayFormat;
+  /**
+   * 빈 문자열 유지 여부 (기본값: false)
+   *
+   * 왜 기본값이 false인가?
+   * - 검색 폼의 빈 입력값이 "조건 없음"이 아닌 "빈 값과 일치"로 해석되는 것을 방지
+   */
+  keepEmptyStrings?: boolean;
+  /** Date 직렬화 함수 (기본값: toISOString) */
+  serializeDate?: (date: Date) => string;
+}
+
+/**
+ * Query String 직렬화 함수
+ *
+ * @returns '?' 없는 query string (파라미터가 없으면 빈 문자열)
+ */
+export type QuerySerializer = (params: Record<string, unknown>) => string;
+
+/**
+ * 값 목록을 쉼표로 합쳐야 하는 필터 연산자
+ */
+const MULTI_VALUE_OPERATORS: readonly FilterOperator[] = ['in', 'notIn'];
+
+/**
+ * 필터 조건 객체인지 확인
+ */
+const isFilterCondition = (value: unknown): value is FilterCondition => {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as FilterCondition).field === 'string' &&
+    typeof (value as FilterCondition).operator === 'string'
+  );
+};
+
+/**
+ * 하위 키를 가진 일반 객체인지 확인 (Date, Blob 등 제외)
+ */
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+};
+
+/**
+ * Query String 직렬화 함수 생성
+ *
+ * @param options - 직렬화 옵션
+ *
+ * @example
+ * const serialize = createQuerySerializer({ arrayFormat: 'brackets' });
+ * serialize({ ids: [1, 2], search: { name: 'kim' }, from: new Date('2024-01-01') });
+ * // => "ids%5B%5D=1&ids%5B%5D=2&search%5Bname%5D=kim&from=2024-01-01T00%3A00%3A00.000Z"
+ *
+ * serialize({ filters: [{ field: 'status', operator: 'in', value: ['READY', 'DONE'] }] });
+ * // => "filters%5Bstatus%5D%5Bin%5D=READY%2CDONE"
+ */
+export const createQuerySerializer = (options: QuerySerializerOptions = {}): QuerySerializer => {
+  const {
+    arrayFormat = API_CONFIG.QUERY_ARRAY_FORMAT,
+    keepEmptyStrings = false,
+    serializeDate = (date: Date) => date.toISOString(),
+  } = options;
+
+  /**
+   * 단일 값 → 문자열 (제외할 값이면 null)
+   */
+  const toScalar = (value: unknown): string | null => {
+    if (value === undefined || value === null) {
+      return null;
+    }
+    if (value instanceof Date) {
+      return Number.isNaN(value.getTime()) ? null : serializeDate(value);
+    }
+    if (value === '' && !keepEmptyStrings) {
+      return null;
+    }
+    return String(value);
+  };
+
+  /**
+   * 키-값 쌍을 재귀적으로 추가
+   */
+  const append = (searchParams: URLSearchParams, key: string, value: unknown): void => {
+    // 1. 필터 조건 (단일 또는 배열) → key[field][operator]=value
+    if (isFilterCondition(value) || (Array.isArray(value) && value.length > 0 && value.every(isFilterCondition))) {
+      const conditions = Array.isArray(value) ? value : [value];
+      conditions.forEach(({ field, operator, value: conditionValue }) => {
+        const filterKey = `${key}[${field}][${operator}]`;
+        const scalar =
+          MULTI_VALUE_OPERATORS.includes(operator) && Array.isArray(conditionValue)
+            ? conditionValue.map(toScalar).filter((item): item is string => item !== null).join(',')
+            : toScalar(conditionValue);
+
+        if (scalar !== null) {
+          searchParams.append(filterKey, scalar);
+        }
+      });
+      return;
+    }
+
+    // 2. 배열
+    if (Array.isArray(value)) {
+      // 객체 배열은 인덱스 표기 (items[0][name]=...)
+      if (value.some(isPlainObject)) {
+        value.forEach((item, index) => append(searchParams, `${key}[${index}]`, item));
+        return;
+      }
+
+      const scalars = value.map(toScalar).filter((item): item is string => item !== null);
+      if (scalars.length === 0) {
+        return;
+      }
+
+      if (arrayFormat === 'comma') {
+        searchParams.append(key, scalars.join(','));
+      } else {
+        const arrayKey = arrayFormat === 'brackets' ? `${key}[]` : key;
+        scalars.forEach((scalar) => searchParams.append(arrayKey, scalar));
+      }
+      return;
+    }
+
+    // 3. 중첩 객체 → key[sub]=value
+    if (isPlainObject(value)) {
+      Object.entries(value).forEach(([subKey, subValue]) => append(searchParams, `${key}[${subKey}]`, subValue));
+      return;
+    }
+
+    // 4. 단일 값
+    const scalar = toScalar(value);
+    if (scalar !== null) {
+      searchParams.append(key, scalar);
+    }
+  };
+
+  return (params) => {
+    const searchParams = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => append(searchParams, key, value));
+    return searchParams.toString();
+  };
+};
+
+/**
+ * 기본 직렬화 함수 (API_CONFIG 설정 사용)
+ */
+export const defaultQuerySerializer = createQuerySerializer();
@@ -0,0 +1,192 @@
+/**
+ * API 재시도 정책
+ *
+ * 왜 별도 파일로 분리했는가?
+ * - ApiClient.request의 흐름(요청 → 응답 처리)과 재시도 판단 로직을 분리
+ * - 지수 백오프/지터 계산을 순수 함수로 유지하여 이해하기 쉽게 구성
+ *
+ * 재시도 대상:
+ * - 네트워크 에러 (TypeError: Failed to fetch)
+ * - 타임아웃 (TimeoutError)
+ * - 게이트웨이/일시적 장애 응답 (502, 503, 504)
+ *
+ * 429/503 + Retry-After는 재시도 횟수와 별개로 ApiClient가 지정 시간 후 다시 예약
+ */
+
+import { API_CONFIG } from '../constants';
+import type { HttpMethod } from '../types';
+
+/**
+ * 재시도 옵션
+ *
+ * 왜 객체로 받는가?
+ * - 호출부에서 필요한 값만 덮어쓰고 나머지는 API_CONFIG 기본값 사용
+ */
+export interface RetryOptions {
+  /** 최대 재시도 횟수 (최초 요청 제외) */
+  count?: number;
+  /** 첫 번째 재시도 딜레이 (밀리초) - 이후 2배씩 증가 */
+  delay?: number;
+  /** 딜레이 상한 (밀리초) */
+  maxDelay?: number;
+  /** 재시도할 HTTP 상태 코드 */
+  statusCodes?: readonly number[];
+  /**
+   * 비멱등 메서드(POST, PATCH) 재시도 허용 여부
+   *
+   * 왜 기본값이 false인가?
+   * - 서버에서 이미 처리된 요청을 다시 보내면 중복 생성/수정 위험
+   * - 서버가 멱등성을 보장하는 API만 호출부에서 명시적으로 허용
+   */
+  allowNonIdempotent?: boolean;
+}
+
+/**
+ * RequestOptions.retry에 전달 가능한 값
+ *
+ * - number: 재시도 횟수만 지정
+ * - false: 재시도 비활성화
+ * - RetryOptions: 세부 설정
+ */
+export type RetryConfig = number | false | RetryOptions;
+
+/**
+ * 기본값이 모두 채워진 재시도 정책
+ */
+export type RetryPolicy = Required<RetryOptions>;
+
+/**
+ * 재시도가 기본 허용되는 비멱등 메서드 목록
+ *
+ * 왜 POST, PATCH만 있는가?
+ * - GET, PUT, DELETE는 HTTP 스펙상 멱등 메서드
+ * - POST, PATCH는 같은 요청을 반복하면 결과가 달라질 수 있음
+ */
+const NON_IDEMPOTENT_METHODS: readonly HttpMethod[] = ['POST', 'PATCH'];
+
+/**
+ * 호출 옵션과 기본 설정을 합쳐 최종 재시도 정책 생성
+ *
+ * @param method - HTTP 메서드
+ * @param config - RequestOptions.retry 값
+ * @returns 재시도 정책 (count가 0이면 재시도 없음)
+ *
+ * @example
+ * resolveRetryPolicy('GET');                 // count: 3
+ * resolveRetryPolicy('POST');                // count: 0 (비멱등)
+ * resolveRetryPolicy('POST', { count: 2, allowNonIdempotent: true }); // count: 2
+ * resolveRetryPolicy('GET', false);          // count: 0
+ */
+export const resolveRetryPolicy = (method: HttpMethod, config?: RetryConfig): RetryPolicy => {
+  const options: RetryOptions =
+    config === false ? { count: 0 } : typeof config === 'number' ? { count: config } : config ?? {};
+
+  const policy: RetryPolicy = {
+    count: options.count ?? API_CONFIG.RETRY_COUNT,
+    delay: options.delay ?? API_CONFIG.RETRY_DELAY,
+    maxDelay: options.maxDelay ?? API_CONFIG.RETRY_MAX_DELAY,
+    statusCodes: options.statusCodes ?? API_CONFIG.RETRY_STATUS_CODES,
+    allowNonIdempotent: options.allowNonIdempotent ?? false,
+  };
+
+  // 비멱등 메서드는 명시적으로 허용한 경우에만 재시도
+  if (NON_IDEMPOTENT_METHODS.includes(method) && !policy.allowNonIdempotent) {
+    policy.count = 0;
+  }
+
+  return policy;
+};
+
+/**
+ * 재시도 전 대기 시간 계산 (지수 백오프 + Full Jitter)
+ *
+ * 왜 지터(jitter)를 넣는가?
+ * - 여러 클라이언트가 동시에 실패하면 같은 시점에 재시도가 몰림 (thundering herd)
+ * - 0 ~ 상한 사이 임의 값으로 분산시켜 서버 부하 완화
+ *
+ * @param attempt - 재시도 순번 (0부터 시작)
+ * @param policy - 재시도 정책
+ * @returns 대기 시간 (밀리초)
+ *
+ * @example
+ * // delay 1000ms 기준 상한: 1000 → 2000 → 4000 ... (maxDelay까지)
+ */
+export const getRetryDelay = (attempt: number, policy: RetryPolicy): number => {
+  const exponential = Math.min(policy.maxDelay, policy.delay * 2 ** attempt);
+  return Math.round(Math.random() * exponential);
+};
+
+/**
+ * Retry-After 헤더 해석
+ *
+ * 형식:
+ * - 초 단위 숫자: "120"
+ * - HTTP 날짜: "Wed, 21 Oct 2015 07:28:00 GMT"
+ *
+ * @param value - Retry-After 헤더 값
+ * @returns 대기 시간 (밀리초, 헤더가 없거나 해석할 수 없으면 null)
+ */
+export const parseRetryAfter = (value: string | null): number | null => {
+  if (!value) {
+    return null;
+  }
+
+  const seconds = Number(value.trim());
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+/**
+ * 응답 상태 코드가 재시도 대상인지 확인
+ */
+export const isRetryableStatus = (status: number, policy: RetryPolicy): boolean => {
+  return policy.statusCodes.includes(status);
+};
+
+/**
+ * fetch 예외가 재시도 대상인지 확인
+ *
+ * 재시도 대상:
+ * - TimeoutError: 타임아웃으로 중단된 요청
+ * - TypeError: 네트워크 연결 실패 (fetch 스펙상 네트워크 에러는 TypeError)
+ *
+ * 왜 AbortError는 제외하는가?
+ * - 호출부가 직접 취소한 요청이므로 다시 보내면 안 됨
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+
+  return error.name === 'TimeoutError' || error instanceof TypeError;
+};
+
+/**
+ * 지정 시간만큼 대기
+ *
+ * @param ms - 대기 시간 (밀리초)
+ * @param signal - 중단되면 즉시 대기 종료 (재시도 대기 중 호출부가 취소한 경우)
+ */
+export const wait = (ms: number, signal?: AbortSignal | null): Promise<void> => {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const handleAbort = () => {
+      clearTimeout(timeoutId);
+      resolve();
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', handleAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', handleAbort, { once: true });
+  });
+};
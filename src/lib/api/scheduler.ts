@@ -0,0 +1,253 @@
+/**
+ * 요청 스케줄러 (호스트별 동시 요청 제한 + 토큰 버킷 + 우선순위)
+ *
+ * 왜 필요한가?
+ * - 일괄 처리 화면이 반복문으로 수백 건의 요청을 한 번에 보내면 백엔드 rate limiter에 걸림 (429)
+ * - 브라우저의 호스트별 연결 수 제한에 밀려 사용자가 누른 요청이 뒤로 밀림
+ *
+ * 동작 방식:
+ * - 동시 요청 수: 호스트별로 maxConcurrent개까지만 전송, 나머지는 대기
+ * - 토큰 버킷: 초당 requestsPerSecond개씩 토큰이 채워지고(최대 burst개), 전송마다 1개 소모
+ * - 우선순위: high → auto → low 순으로 대기열에서 꺼냄 (같은 우선순위는 먼저 온 순서)
+ * - 일시 정지: 서버가 Retry-After로 알려준 시간 동안 해당 호스트 전송 중단
+ *
+ * 값이 0 이하이면 해당 제한을 사용하지 않음
+ */
+
+import { createAbortError } from './signal';
+
+/**
+ * 속도 제한 설정
+ */
+export interface RateLimitOptions {
+  /** 호스트별 최대 동시 요청 수 */
+  maxConcurrent?: number;
+  /** 초당 허용 요청 수 (토큰 충전 속도) */
+  requestsPerSecond?: number;
+  /** 한 번에 몰아서 보낼 수 있는 최대 요청 수 (버킷 크기) */
+  burst?: number;
+}
+
+/**
+ * 슬롯 반환 함수 (응답을 받으면 호출)
+ */
+export type ReleaseSlot = () => void;
+
+/**
+ * 우선순위별 대기열 순서
+ *
+ * 왜 별도 타입 대신 fetch의 RequestPriority를 쓰는가?
+ * - RequestInit.priority와 같은 값이므로 fetch 우선순위 힌트로도 그대로 전달됨
+ * - high: 사용자가 직접 실행한 요청 (버튼 클릭, 저장)
+ * - auto: 기본값
+ * - low: 백그라운드 요청 (미리 불러오기, 캐시 갱신, 오프라인 큐 재전송)
+ */
+const PRIORITY_ORDER: Record<RequestPriority, number> = { high: 0, auto: 1, low: 2 };
+
+/**
+ * 대기 중인 요청
+ */
+interface Waiter {
+  priority: number;
+  grant: (release: ReleaseSlot) => void;
+}
+
+/**
+ * 호스트별 상태
+ */
+interface HostState {
+  /** 전송 중인 요청 수 */
+  active: number;
+  /** 남은 토큰 수 */
+  tokens: number;
+  /** 마지막 토큰 충전 시각 */
+  refilledAt: number;
+  /** 전송 재개 시각 (Retry-After) */
+  pausedUntil: number;
+  /** 대기열 (우선순위 순) */
+  waiters: Waiter[];
+  /** 토큰 충전/일시 정지 해제 대기 타이머 */
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * URL에서 호스트 추출 (상대 경로는 현재 페이지 기준)
+ */
+const getHost = (url: string): string => {
+  try {
+    const base = typeof window !== 'undefined' ? window.location.href : 'http://localhost';
+    return new URL(url, base).host;
+  } catch {
+    return '';
+  }
+};
+
+/**
+ * 요청 스케줄러 클래스
+ *
+ * @example
+ * const release = await scheduler.acquire(url, 'high', signal);
+ * try {
+ *   return await fetch(url);
+ * } finally {
+ *   release();
+ * }
+ */
+export class RequestScheduler {
+  private hosts = new Map<string, HostState>();
+  private options: Required<RateLimitOptions>;
+
+  constructor(options: Required<RateLimitOptions>) {
+    this.options = options;
+  }
+
+  /**
+   * 설정 변경 (undefined인 값은 유지)
+   *
+   * EnvProvider에서 런타임 설정(API_MAX_CONCURRENT 등)을 적용할 때 사용
+   */
+  configure = (options: RateLimitOptions): void => {
+    this.options = {
+      maxConcurrent: options.maxConcurrent ?? this.options.maxConcurrent,
+      requestsPerSecond: options.requestsPerSecond ?? this.options.requestsPerSecond,
+      burst: options.burst ?? this.options.burst,
+    };
+
+    // 제한이 완화되었으면 대기 중인 요청을 바로 내보냄
+    this.hosts.forEach((state) => this.pump(state));
+  };
+
+  /**
+   * 전송 슬롯 획득 (제한에 걸리면 차례가 올 때까지 대기)
+   *
+   * @param url - 요청 URL (호스트 단위로 제한)
+   * @param priority - 우선순위
+   * @param signal - 대기 중 취소되면 AbortError로 reject
+   * @returns 슬롯 반환 함수 (반드시 호출해야 다음 요청이 진행됨)
+   */
+  acquire = (url: string, priority: RequestPriority = 'auto', signal?: AbortSignal | null): Promise<ReleaseSlot> => {
+    const state = this.getState(getHost(url));
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+      }
+
+      const handleAbort = () => {
+        state.waiters = state.waiters.filter((item) => item !== waiter);
+        reject(createAbortError());
+      };
+
+      const waiter: Waiter = {
+        priority: PRIORITY_ORDER[priority],
+        grant: (release) => {
+          signal?.removeEventListener('abort', handleAbort);
+          resolve(release);
+        },
+      };
+
+      // 우선순위가 낮은 첫 대기 요청 앞에 삽입 (같은 우선순위는 먼저 온 순서 유지)
+      const index = state.waiters.findIndex((item) => item.priority > waiter.priority);
+      state.waiters.splice(index === -1 ? state.waiters.length : index, 0, waiter);
+      signal?.addEventListener('abort', handleAbort, { once: true });
+
+      this.pump(state);
+    });
+  };
+
+  /**
+   * 호스트 전송 일시 정지 (429/503 Retry-After)
+   *
+   * 왜 요청 하나가 아니라 호스트 전체를 멈추는가?
+   * - 서버가 제한에 걸렸다고 알렸는데 대기 중인 다른 요청을 계속 보내면 제한이 더 길어짐
+   */
+  pause = (url: string, ms: number): void => {
+    const state = this.getState(getHost(url));
+    state.pausedUntil = Math.max(state.pausedUntil, Date.now() + ms);
+    this.pump(state);
+  };
+
+  private getState = (host: string): HostState => {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = {
+        active: 0,
+        tokens: Math.max(this.options.burst, 1),
+        refilledAt: Date.now(),
+        pausedUntil: 0,
+        waiters: [],
+        timer: null,
+      };
+      this.hosts.set(host, state);
+    }
+    return state;
+  };
+
+  /**
+   * 경과 시간만큼 토큰 충전
+   */
+  private refill = (state: HostState, now: number): void => {
+    const { requestsPerSecond, burst } = this.options;
+    const elapsed = now - state.refilledAt;
+
+    // burst가 1보다 작으면 토큰이 쌓이지 않아 영원히 대기하므로 최소 1
+    state.tokens = Math.min(Math.max(burst, 1), state.tokens + (elapsed / 1000) * requestsPerSecond);
+    state.refilledAt = now;
+  };
+
+  /**
+   * 제한이 허용하는 만큼 대기열에서 요청을 꺼내 실행
+   *
+   * 토큰이나 일시 정지 때문에 멈추면 다시 가능해지는 시각에 타이머로 재개
+   */
+  private pump = (state: HostState): void => {
+    const { maxConcurrent, requestsPerSecond } = this.options;
+    const rateLimited = requestsPerSecond > 0;
+
+    if (state.timer) {
+      clearTimeout(state.timer);
+      state.timer = null;
+    }
+
+    while (state.waiters.length > 0) {
+      const now = Date.now();
+
+      if (now < state.pausedUntil) {
+        state.timer = setTimeout(() => this.pump(state), state.pausedUntil - now);
+        return;
+      }
+
+      if (maxConcurrent > 0 && state.active >= maxConcurrent) {
+        return; // 슬롯이 반환되면 release()에서 다시 실행
+      }
+
+      if (rateLimited) {
+        this.refill(state, now);
+        if (state.tokens < 1) {
+          const waitMs = Math.ceil(((1 - state.tokens) / requestsPerSecond) * 1000);
+          state.timer = setTimeout(() => this.pump(state), waitMs);
+          return;
+        }
+        state.tokens -= 1;
+      }
+
+      const waiter = state.waiters.shift()!;
+      state.active++;
+      waiter.grant(this.createRelease(state));
+    }
+  };
+
+  /**
+   * 한 번만 동작하는 슬롯 반환 함수 생성
+   */
+  private createRelease = (state: HostState): ReleaseSlot => {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      state.active--;
+      this.pump(state);
+    };
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * 응답 스키마 검증 (zod)
+ *
+ * 왜 필요한가?
+ * - ApiResponse<T>의 T는 컴파일 타임 약속일 뿐, 백엔드가 실제로 그 형식을 보냈는지는 모름
+ * - 필드명 변경/누락 같은 계약 불일치를 화면 깨짐이 아닌 명확한 에러로 발견
+ *
+ * 검증 모드:
+ * - strict (개발): 불일치 시 VALIDATION_ERROR 실패 응답 반환
+ * - warn (운영): 경고만 기록하고 원본 데이터 그대로 사용 (사용자 화면은 최대한 유지)
+ *
+ * 불일치는 onMismatch로 전달 (apiClient는 요청 추적 기록에 남김)
+ */
+
+import type { ZodType } from 'zod';
+import type { ApiResponse } from '../types';
+import type { TraceEvent } from './trace';
+import { createAppError } from './errors';
+
+/**
+ * 스키마 검증 모드
+ */
+export type SchemaValidationMode = 'strict' | 'warn';
+
+/**
+ * 성공 응답의 data를 스키마로 검증
+ *
+ * @param response - 성공 응답 (실패 응답은 그대로 반환)
+ * @param schema - zod 스키마
+ * @param mode - 검증 모드
+ * @param label - 로그용 요청 정보 (예: "GET /users/1")
+ * @param onMismatch - 불일치 기록 (warn 모드: 'warn', strict 모드: 'error')
+ * @returns 검증된 응답 (strict에서 실패하면 VALIDATION_ERROR 실패 응답)
+ *
+ * @example
+ * validateResponse(response, userSchema, 'strict', 'GET /users/1', (message, level) =>
+ *   apiClient.tracer.event(response.requestId ?? null, message, level)
+ * );
+ * // 실패 시 error.fieldErrors: { 'profile.email': ['Invalid input: expected string, received undefined'] }
+ */
+export const validateResponse = <T>(
+  response: ApiResponse<unknown>,
+  schema: ZodType<T>,
+  mode: SchemaValidationMode,
+  label: string,
+  onMismatch: (message: string, level: TraceEvent['level']) => void
+): ApiResponse<T> => {
+  if (!response.success) {
+    return response as ApiResponse<T>;
+  }
+
+  const result = schema.safeParse(response.data);
+  if (result.success) {
+    // 파싱 결과 사용 (default, coerce 등 스키마 변환 반영)
+    return { ...response, data: result.data };
+  }
+
+  // 이슈 경로별 메시지 (루트 이슈는 '(root)')
+  const fieldErrors: Record<string, string[]> = {};
+  result.error.issues.forEach((issue) => {
+    const path = issue.path.length > 0 ? issue.path.map(String).join('.') : '(root)';
+    (fieldErrors[path] ??= []).push(issue.message);
+  });
+
+  const summary = Object.entries(fieldErrors)
+    .map(([path, messages]) => `${path}: ${messages.join(', ')}`)
+    .join('; ');
+  const message = `Response schema mismatch: ${label} (${summary})`;
+
+  if (mode === 'warn') {
+    onMismatch(message, 'warn');
+    return response as ApiResponse<T>;
+  }
+
+  onMismatch(message, 'error');
+
+  return {
+    success: false,
+    error: createAppError('VALIDATION_ERROR', {
+      message: '서버 응답 형식이 올바르지 않습니다',
+      statusCode: response.statusCode,
+      details: result.error.issues,
+      fieldErrors,
+    }),
+    statusCode: response.statusCode,
+    timestamp: response.timestamp,
+  };
+};
@@ -0,0 +1,88 @@
+/**
+ * API 서비스 레지스트리 (여러 백엔드 관리)
+ *
+ * 왜 필요한가?
+ * - MES 코어, 보고서, 파일 서버처럼 백엔드마다 baseURL, 타임아웃, 헤더가 다름
+ * - 백엔드별로 ApiClient 인스턴스를 따로 만들면 인터셉터(토큰 갱신, CSRF), 재시도,
+ *   속도 제한, 추적 기록이 인스턴스마다 흩어짐
+ * - 하나의 apiClient 파이프라인을 공유하고, 요청마다 서비스 설정만 골라서 적용
+ *
+ * 설정 방법:
+ * - 기본 서비스(core): EnvConfig.API_BASE_URL (apiClient.setBaseURL)
+ * - 그 외 서비스: EnvConfig.API_SERVICES (public/config.js)
+ */
+
+import type { ApiServiceConfig, ApiServiceName } from '../types';
+
+/**
+ * 기본 서비스 이름 (service를 지정하지 않은 요청)
+ */
+export const DEFAULT_SERVICE: ApiServiceName = 'core';
+
+/**
+ * 서비스 레지스트리 클래스
+ *
+ * @example
+ * const registry = new ServiceRegistry('/api');
+ * registry.configure('reporting', { baseURL: 'https://report.example.com', timeout: 120000 });
+ * registry.get('reporting').baseURL; // 'https://report.example.com'
+ */
+export class ServiceRegistry {
+  private services = new Map<ApiServiceName, ApiServiceConfig>();
+  /** 누락 경고를 이미 남긴 서비스 (요청마다 반복하지 않도록) */
+  private reportedMissing = new Set<ApiServiceName>();
+
+  /**
+   * @param onMissing - 설정되지 않은 서비스를 요청했을 때 호출 (기본 서비스로 대체됨)
+   */
+  constructor(
+    baseURL: string,
+    private onMissing?: (name: ApiServiceName) => void
+  ) {
+    this.services.set(DEFAULT_SERVICE, { baseURL });
+  }
+
+  /**
+   * 서비스 설정 추가/변경 (기존 설정 위에 병합)
+   */
+  configure = (name: ApiServiceName, config: Partial<ApiServiceConfig>): void => {
+    const current = this.services.get(name);
+    this.services.set(name, { ...current, ...config, baseURL: config.baseURL ?? current?.baseURL ?? '' });
+  };
+
+  /**
+   * 여러 서비스 설정을 한 번에 적용 (EnvConfig.API_SERVICES)
+   */
+  configureAll = (services: Partial<Record<ApiServiceName, Partial<ApiServiceConfig>>>): void => {
+    (Object.keys(services) as ApiServiceName[]).forEach((name) => {
+      this.configure(name, services[name]!);
+    });
+  };
+
+  /**
+   * 서비스 설정 조회
+   *
+   * 왜 설정이 없으면 기본 서비스로 대체하는가?
+   * - 개발 환경(API_MOCK)에서는 모든 서비스를 설정하지 않아도 동작해야 함
+   * - 대신 onMissing으로 경고를 남겨 운영 설정 누락을 발견할 수 있도록
+   */
+  get = (name: ApiServiceName = DEFAULT_SERVICE): ApiServiceConfig => {
+    const config = this.services.get(name);
+    if (config) {
+      return config;
+    }
+
+    if (!this.reportedMissing.has(name)) {
+      this.reportedMissing.add(name);
+      this.onMissing?.(name);
+    }
+    return this.services.get(DEFAULT_SERVICE)!;
+  };
+
+  /**
+   * 등록된 모든 서비스의 baseURL (CSRF 토큰 전송 대상 판단 등)
+   */
+  getBaseURLs = (): string[] => {
+    return Array.from(this.services.values(), (config) => config.baseURL);
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * AbortSignal 유틸리티
+ *
+ * 왜 필요한가?
+ * - 호출부의 취소(signal)와 타임아웃을 하나의 signal로 합쳐 fetch에 전달
+ * - 취소와 타임아웃을 구분하여 UI가 취소는 무시하고 타임아웃만 안내할 수 있도록
+ * - 여러 호출부가 하나의 요청을 공유할 때(중복 제거 등) 각자의 취소를 독립적으로 처리
+ */
+
+/**
+ * 호출부 취소 에러 생성 (name: 'AbortError')
+ */
+export const createAbortError = (): DOMException => {
+  return new DOMException('요청이 취소되었습니다', 'AbortError');
+};
+
+/**
+ * 타임아웃 에러 생성 (name: 'TimeoutError')
+ *
+ * 왜 AbortError와 이름을 나누는가?
+ * - 둘 다 AbortController로 중단되지만 의미가 다름
+ * - 타임아웃은 재시도 대상, 호출부 취소는 재시도하면 안 됨
+ */
+export const createTimeoutError = (): DOMException => {
+  return new DOMException('요청 시간이 초과되었습니다', 'TimeoutError');
+};
+
+/**
+ * 타임아웃과 호출부 signal을 합친 결과
+ */
+export interface TimeoutSignal {
+  /** fetch에 전달할 signal */
+  signal: AbortSignal;
+  /** 타임아웃으로 중단되었는지 여부 */
+  timedOut: () => boolean;
+  /** 타이머, 이벤트 리스너 정리 */
+  cleanup: () => void;
+  /**
+   * 타이머만 정리 (호출부 취소는 계속 전달)
+   *
+   * 언제 사용하는가?
+   * - stream 응답: 헤더 수신 후에도 호출부가 취소하면 본문 읽기를 중단해야 함
+   */
+  clearTimer: () => void;
+}
+
+/**
+ * 호출부 signal과 타임아웃을 하나의 signal로 결합
+ *
+ * 왜 AbortSignal.any()를 쓰지 않는가?
+ * - 구형 브라우저(사내 태블릿 등) 지원
+ * - 어느 쪽 때문에 중단되었는지 직접 추적해야 함
+ *
+ * @param callerSignal - 호출부에서 전달한 signal (없을 수 있음)
+ * @param timeout - 타임아웃 (밀리초)
+ *
+ * @example
+ * const { signal, timedOut, cleanup } = combineWithTimeout(options.signal, 30000);
+ * try {
+ *   await fetch(url, { signal });
+ * } finally {
+ *   cleanup();
+ * }
+ */
+export const combineWithTimeout = (
+  callerSignal: AbortSignal | null | undefined,
+  timeout: number
+): TimeoutSignal => {
+  const controller = new AbortController();
+  let isTimedOut = false;
+
+  const timeoutId = setTimeout(() => {
+    isTimedOut = true;
+    controller.abort(createTimeoutError());
+  }, timeout);
+
+  const handleCallerAbort = () => controller.abort(createAbortError());
+
+  if (callerSignal?.aborted) {
+    handleCallerAbort();
+  } else {
+    callerSignal?.addEventListener('abort', handleCallerAbort, { once: true });
+  }
+
+  return {
+    signal: controller.signal,
+    timedOut: () => isTimedOut,
+    cleanup: () => {
+      clearTimeout(timeoutId);
+      callerSignal?.removeEventListener('abort', handleCallerAbort);
+    },
+    clearTimer: () => clearTimeout(timeoutId),
+  };
+};
+
+/**
+ * Promise와 AbortSignal 중 먼저 끝나는 쪽의 결과 반환
+ *
+ * 왜 Promise 자체를 취소하지 않는가?
+ * - 공유 중인 요청은 다른 호출부가 여전히 기다리고 있음
+ * - 취소한 호출부만 즉시 결과(onAbort)를 받고, 요청은 계속 진행
+ *
+ * @param promise - 대기할 Promise
+ * @param signal - 호출부의 AbortSignal (없으면 promise 그대로 반환)
+ * @param onAbort - 취소 시 반환할 값 생성 함수
+ */
+export const raceWithSignal = <T>(
+  promise: Promise<T>,
+  signal: AbortSignal | null | undefined,
+  onAbort: (reason: unknown) => T
+): Promise<T> => {
+  if (!signal) {
+    return promise;
+  }
+
+  if (signal.aborted) {
+    return Promise.resolve(onAbort(signal.reason));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const handleAbort = () => resolve(onAbort(signal.reason));
+    signal.addEventListener('abort', handleAbort, { once: true });
+
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener('abort', handleAbort);
+    });
+  });
+};
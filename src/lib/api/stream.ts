@@ -0,0 +1,454 @@
+/**
+ * 스트리밍 응답 소비 (Server-Sent Events, NDJSON)
+ *
+ * 왜 필요한가?
+ * - 장시간 작업(일괄 처리, 리포트 생성)과 로그 tail은 결과를 조금씩 내보내는데
+ *   기존 요청은 본문 전체를 받을 때까지 기다려야 함
+ * - EventSource는 GET만 가능하고 헤더(X-Request-Id, 서비스 헤더)를 추가할 수 없으며 인터셉터를 거치지 않음
+ * - fetch 본문(ReadableStream)을 직접 읽으면 apiClient의 baseURL, 쿠키, 인터셉터를 그대로 사용 가능
+ *
+ * 지원 형식:
+ * - SSE (text/event-stream): event:, data:, id:, retry: 필드 / 빈 줄로 이벤트 구분
+ * - NDJSON (application/x-ndjson): 한 줄에 JSON 하나
+ *
+ * 재연결:
+ * - 네트워크 에러, 타임아웃, 5xx, 본문 읽기 실패 → retry 간격 후 Last-Event-ID와 함께 다시 연결
+ * - 4xx → 재연결해도 같은 결과이므로 종료, 204 → 서버가 "더 보낼 것 없음"으로 종료
+ * - 서버가 본문을 정상적으로 닫으면 종료 (reconnectOnClose: true면 EventSource처럼 다시 연결)
+ */
+
+import type { ApiResponse, AppError } from '../types';
+import { createAppError } from './errors';
+import { wait } from './retry';
+import { createAbortError } from './signal';
+import { API_CONFIG, HTTP_STATUS } from '../constants';
+
+/**
+ * 스트림 형식
+ */
+export type StreamFormat = 'sse' | 'ndjson';
+
+/**
+ * 스트림 이벤트
+ */
+export interface StreamEvent<T = unknown> {
+  /** 이벤트 이름 (SSE event: 필드, 없으면 'message' / NDJSON은 항상 'message') */
+  type: string;
+  /** 이벤트 데이터 (JSON이면 파싱한 값, 아니면 문자열) */
+  data: T;
+  /** 이벤트 ID (SSE id: 필드, 재연결 시 Last-Event-ID로 전송) */
+  id?: string;
+}
+
+/**
+ * 스트림 에러 정보
+ */
+export interface StreamErrorInfo {
+  /** 스트림 종료 여부 (false: 재연결 예정이거나 NDJSON 한 줄만 건너뜀) */
+  closed: boolean;
+  /** 연속 연결 실패 횟수 (이벤트를 받으면 0으로 초기화) */
+  attempt: number;
+}
+
+/**
+ * 스트림 콜백 및 재연결 설정
+ */
+export interface StreamHandlers<T = unknown> {
+  /** 이벤트 수신 */
+  onEvent: (event: StreamEvent<T>) => void;
+  /**
+   * 에러 발생 (연결 실패, 본문 읽기 실패, NDJSON 줄 파싱 실패)
+   *
+   * 호출부 취소(AbortSignal)는 에러가 아니므로 호출하지 않음
+   */
+  onError?: (error: AppError, info: StreamErrorInfo) => void;
+  /** 연결 성공 (재연결 포함, 응답 헤더 확인용) */
+  onOpen?: (response: ApiResponse<unknown>) => void;
+  /** 형식 (기본값: 응답 Content-Type으로 판단, 알 수 없으면 'sse') */
+  format?: StreamFormat;
+  /** 에러 시 재연결 여부 (기본값: SSE만 true - NDJSON은 이어받을 위치가 없음) */
+  reconnect?: boolean;
+  /** 서버가 본문을 정상적으로 닫았을 때도 재연결 (기본값: false) */
+  reconnectOnClose?: boolean;
+  /** 재연결 간격 (밀리초, 기본값: API_CONFIG.STREAM_RETRY_DELAY / SSE retry: 필드가 우선) */
+  retryDelay?: number;
+  /** 연속 재연결 최대 횟수 (기본값: API_CONFIG.STREAM_MAX_RECONNECTS) */
+  maxReconnects?: number;
+  /** 첫 연결부터 보낼 Last-Event-ID (이전 화면에서 받던 위치부터 이어받기) */
+  lastEventId?: string;
+}
+
+/**
+ * 스트림 연결 함수 (ApiClient가 주입)
+ *
+ * @param lastEventId - 마지막으로 받은 이벤트 ID (없으면 undefined)
+ */
+export type StreamOpener = (lastEventId: string | undefined) => Promise<ApiResponse<ReadableStream<Uint8Array> | null>>;
+
+/**
+ * 파싱된 원본 이벤트
+ */
+interface RawEvent {
+  type: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * 청크 단위 텍스트 파서
+ */
+interface StreamParser {
+  /** 디코딩된 텍스트 추가 */
+  feed: (chunk: string) => void;
+  /** 본문 끝 (남은 버퍼 처리) */
+  end: () => void;
+}
+
+/**
+ * 본문을 끝까지 읽었거나 에러/취소로 끝났을 때 onEnd 호출
+ *
+ * 왜 필요한가?
+ * - stream 응답은 헤더 수신 후에도 호출부 취소를 전달해야 하므로 signal 리스너를 바로 해제할 수 없음
+ * - 본문이 끝난 뒤에도 리스너가 남으면 재연결할 때마다 호출부 signal에 쌓임
+ *
+ * @param response - 전송 계층 응답
+ * @param onEnd - 본문이 끝났을 때 한 번만 호출
+ * @returns 같은 상태/헤더에 본문만 감싼 응답 (본문이 없으면 원본)
+ */
+export const onStreamEnd = (response: Response, onEnd: () => void): Response => {
+  if (!response.body) {
+    onEnd();
+    return response;
+  }
+
+  const reader = response.body.getReader();
+  let ended = false;
+  const end = () => {
+    if (!ended) {
+      ended = true;
+      onEnd();
+    }
+  };
+
+  const body = new ReadableStream<Uint8Array>({
+    pull: async (controller) => {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          end();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        end();
+        controller.error(error);
+      }
+    },
+    cancel: (reason) => {
+      end();
+      return reader.cancel(reason);
+    },
+  });
+
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+};
+
+/**
+ * Content-Type → 형식
+ */
+export const detectStreamFormat = (contentType?: string): StreamFormat => {
+  return /ndjson|jsonl|json-seq/i.test(contentType ?? '') ? 'ndjson' : 'sse';
+};
+
+/**
+ * SSE 파서 (HTML 명세의 event stream 해석 규칙)
+ *
+ * 왜 청크 경계를 직접 처리하는가?
+ * - 네트워크 청크는 줄/이벤트 중간에서 잘릴 수 있음 (\r\n이 두 청크로 나뉘는 경우 포함)
+ *
+ * @example
+ * const parser = new SseParser((event) => console.log(event));
+ * parser.feed('event: progress\ndata: {"percent":');
+ * parser.feed('40}\n\n'); // => { type: 'progress', data: '{"percent":40}' }
+ */
+export class SseParser implements StreamParser {
+  /** 마지막 이벤트 ID (id: 필드) */
+  lastEventId: string | undefined;
+  /** 서버가 지정한 재연결 간격 (retry: 필드, 없으면 null) */
+  retry: number | null = null;
+
+  private buffer = '';
+  private skipLineFeed = false;
+  private type = '';
+  private data: string[] = [];
+
+  constructor(
+    private emit: (event: RawEvent) => void,
+    lastEventId?: string
+  ) {
+    this.lastEventId = lastEventId;
+  }
+
+  feed = (chunk: string): void => {
+    // 이전 청크가 \r로 끝났으면 이번 청크의 \n은 같은 줄바꿈
+    let text = this.skipLineFeed && chunk.startsWith('\n') ? chunk.slice(1) : chunk;
+    this.skipLineFeed = text.endsWith('\r');
+
+    text = this.buffer + text;
+    const lines = text.split(/\r\n|\r|\n/);
+    this.buffer = lines.pop() ?? '';
+    lines.forEach(this.processLine);
+  };
+
+  /**
+   * 명세상 빈 줄로 끝나지 않은 마지막 이벤트는 버림
+   */
+  end = (): void => {
+    this.buffer = '';
+    this.type = '';
+    this.data = [];
+  };
+
+  private processLine = (line: string): void => {
+    // 빈 줄 → 이벤트 전달
+    if (line === '') {
+      if (this.data.length > 0) {
+        this.emit({ type: this.type || 'message', data: this.data.join('\n'), id: this.lastEventId });
+      }
+      this.type = '';
+      this.data = [];
+      return;
+    }
+
+    // 주석 (연결 유지용 ": ping" 등)
+    if (line.startsWith(':')) {
+      return;
+    }
+
+    const index = line.indexOf(':');
+    const field = index === -1 ? line : line.slice(0, index);
+    const value = index === -1 ? '' : line.slice(index + 1).replace(/^ /, '');
+
+    switch (field) {
+      case 'event':
+        this.type = value;
+        break;
+      case 'data':
+        this.data.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) {
+          this.lastEventId = value;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          this.retry = Number(value);
+        }
+        break;
+    }
+  };
+}
+
+/**
+ * NDJSON 파서 (한 줄 = JSON 하나)
+ *
+ * @example
+ * const parser = new NdjsonParser((event) => console.log(event.data), console.error);
+ * parser.feed('{"line":1}\n{"li');
+ * parser.feed('ne":2}\n'); // => { line: 1 }, { line: 2 }
+ */
+export class NdjsonParser implements StreamParser {
+  private buffer = '';
+
+  constructor(
+    private emit: (event: StreamEvent) => void,
+    private onInvalidLine: (line: string, error: unknown) => void
+  ) {}
+
+  feed = (chunk: string): void => {
+    const lines = (this.buffer + chunk).split('\n');
+    this.buffer = lines.pop() ?? '';
+    lines.forEach(this.processLine);
+  };
+
+  /**
+   * 줄바꿈 없이 끝난 마지막 줄도 처리
+   */
+  end = (): void => {
+    this.processLine(this.buffer);
+    this.buffer = '';
+  };
+
+  private processLine = (line: string): void => {
+    const text = line.trim();
+    if (!text) {
+      return;
+    }
+
+    try {
+      this.emit({ type: 'message', data: JSON.parse(text) });
+    } catch (error) {
+      this.onInvalidLine(text, error);
+    }
+  };
+}
+
+/**
+ * SSE data 해석 (JSON이면 파싱, 아니면 문자열 그대로)
+ */
+const parseEventData = (data: string): unknown => {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+};
+
+/**
+ * 재연결해도 같은 결과가 나오는 실패인지 확인 (4xx, 취소)
+ */
+const isFinalFailure = (response: ApiResponse<unknown>): boolean => {
+  if (response.abortReason === 'cancelled') {
+    return true;
+  }
+
+  const { statusCode } = response;
+  return (
+    statusCode >= 400 &&
+    statusCode < 500 &&
+    statusCode !== HTTP_STATUS.REQUEST_TIMEOUT &&
+    statusCode !== HTTP_STATUS.TOO_MANY_REQUESTS
+  );
+};
+
+/**
+ * 스트림 연결 + 본문 읽기 + 재연결
+ *
+ * @param open - 연결 함수 (Last-Event-ID 헤더 포함 요청)
+ * @param handlers - 이벤트/에러 콜백, 재연결 설정
+ * @param signal - 호출부 취소 signal (연결 요청에도 전달되어 있어야 함)
+ * @param toErrorResponse - 본문 읽기 중 발생한 예외 → 실패 응답 (취소/타임아웃 구분)
+ * @returns 스트림 종료 결과 (정상 종료: 성공, 취소: abortReason 'cancelled', 그 외: 마지막 실패 응답)
+ */
+export const consumeStream = async <T>(
+  open: StreamOpener,
+  handlers: StreamHandlers<T>,
+  signal: AbortSignal | null | undefined,
+  toErrorResponse: (error: unknown, requestId?: string) => ApiResponse<never>
+): Promise<ApiResponse<void>> => {
+  const maxReconnects = handlers.maxReconnects ?? API_CONFIG.STREAM_MAX_RECONNECTS;
+  let lastEventId = handlers.lastEventId;
+  let retryDelay = handlers.retryDelay ?? API_CONFIG.STREAM_RETRY_DELAY;
+  let format = handlers.format;
+  let attempt = 0;
+
+  for (;;) {
+    const response = await open(lastEventId);
+    let result: ApiResponse<void>;
+    let received = false;
+
+    if (!response.success) {
+      result = { ...response, data: undefined };
+    } else if (response.statusCode === HTTP_STATUS.NO_CONTENT || !response.data) {
+      return { ...response, data: undefined };
+    } else {
+      handlers.onOpen?.(response);
+      format ??= detectStreamFormat(response.headers?.['content-type']);
+
+      const emit = (event: StreamEvent) => {
+        received = true;
+        handlers.onEvent(event as StreamEvent<T>);
+      };
+      const sse =
+        format === 'sse'
+          ? new SseParser((event) => emit({ ...event, data: parseEventData(event.data) }), lastEventId)
+          : null;
+      const parser =
+        sse ??
+        new NdjsonParser(emit, (line, error) =>
+          handlers.onError?.(
+            createAppError('UNKNOWN_ERROR', { message: 'Invalid NDJSON line', details: { line, error } }),
+            { closed: false, attempt }
+          )
+        );
+
+      result = await readStream(response.data, parser, signal, response, toErrorResponse);
+
+      // 다음 연결에 사용할 위치/간격
+      if (sse) {
+        lastEventId = sse.lastEventId;
+        retryDelay = sse.retry ?? retryDelay;
+      }
+    }
+
+    if (received) {
+      attempt = 0;
+    }
+
+    // 1. 취소 → onError 없이 종료
+    if (signal?.aborted) {
+      return result.abortReason === 'cancelled' ? result : { ...toErrorResponse(createAbortError()), data: undefined };
+    }
+
+    // 2. 정상 종료 → 재연결 여부 결정
+    const reconnect = handlers.reconnect ?? (format ?? 'sse') === 'sse';
+    if (result.success && !handlers.reconnectOnClose) {
+      return result;
+    }
+
+    // 3. 실패 → 재연결 가능하면 retryDelay 후 다시 연결
+    const canReconnect = reconnect && !isFinalFailure(result) && attempt < maxReconnects;
+    if (!result.success) {
+      attempt++;
+      handlers.onError?.(result.error!, { closed: !canReconnect, attempt });
+    }
+    if (!canReconnect) {
+      return result;
+    }
+
+    await wait(retryDelay, signal);
+  }
+};
+
+/**
+ * 본문 끝까지 읽으면서 파서에 전달
+ *
+ * 왜 abort 시 reader.cancel()을 직접 호출하는가?
+ * - 연결을 끊지 않으면 서버가 계속 데이터를 보내고, read()가 다음 청크까지 대기함
+ */
+const readStream = async (
+  body: ReadableStream<Uint8Array>,
+  parser: StreamParser,
+  signal: AbortSignal | null | undefined,
+  response: ApiResponse<unknown>,
+  toErrorResponse: (error: unknown, requestId?: string) => ApiResponse<never>
+): Promise<ApiResponse<void>> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const handleAbort = () => void reader.cancel().catch(() => undefined);
+  signal?.addEventListener('abort', handleAbort, { once: true });
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done || signal?.aborted) {
+        break;
+      }
+      parser.feed(decoder.decode(value, { stream: true }));
+    }
+
+    if (signal?.aborted) {
+      return { ...toErrorResponse(createAbortError(), response.requestId), data: undefined };
+    }
+
+    parser.feed(decoder.decode());
+    parser.end();
+    return { ...response, data: undefined };
+  } catch (error) {
+    return { ...toErrorResponse(signal?.aborted ? createAbortError() : error, response.requestId), data: undefined };
+  } finally {
+    signal?.removeEventListener('abort', handleAbort);
+  }
+};
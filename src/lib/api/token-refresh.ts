@@ -0,0 +1,145 @@
+/**
+ * 401 응답 시 토큰 갱신 (Single-flight)
+ *
+ * 왜 필요한가?
+ * - 액세스 토큰(쿠키)이 만료되면 여러 요청이 동시에 401을 받음
+ * - 요청마다 갱신을 호출하면 refresh API가 중복 실행되고 토큰이 꼬일 수 있음
+ * - 갱신은 딱 한 번만 실행하고, 나머지 요청은 갱신이 끝날 때까지 대기 후 재전송
+ *
+ * 동작 방식:
+ * 1. 응답 인터셉터가 401을 감지하면 갱신 시작 (이미 진행 중이면 같은 Promise 대기)
+ * 2. 갱신 중 새로 시작되는 요청은 요청 인터셉터에서 갱신 완료까지 대기
+ * 3. 갱신 성공 → 401을 받았던 요청을 replay()로 재전송
+ * 4. 갱신 실패 → onRefreshFailed 한 번만 호출 (예: SSO 리다이렉트)
+ * 5. 갱신이 끝난 뒤 도착한 401이라도 갱신 전에 보낸 요청이면 다시 갱신하지 않고 재전송
+ *
+ * 왜 lib에 있는가?
+ * - 갱신 API, 실패 처리는 도메인(entities/auth)마다 다르므로 함수로 주입받음
+ * - 동시성 제어 로직만 공통으로 제공
+ */
+
+import type { ApiClient } from '../api-client';
+import type { ApiRequest } from './interceptors';
+import { HTTP_STATUS } from '../constants';
+
+/**
+ * 토큰 갱신 설정
+ */
+export interface TokenRefreshOptions {
+  /**
+   * 토큰 갱신 함수
+   *
+   * @returns 갱신 성공 여부
+   */
+  refresh: () => Promise<boolean>;
+  /**
+   * 갱신 실패 시 호출 (동시에 실패한 요청이 여러 개여도 한 번만 호출)
+   */
+  onRefreshFailed?: () => void;
+}
+
+/**
+ * 갱신 대상에서 제외할 요청인지 확인
+ *
+ * 왜 필요한가?
+ * - refresh API 자체가 401을 받았을 때 다시 갱신을 시도하면 무한 대기 발생
+ * - 로그인/로그아웃처럼 401이 정상 응답인 요청도 제외
+ *
+ * @example
+ * apiClient.post('/auth/refresh', undefined, { meta: { skipAuthRefresh: true } });
+ */
+const shouldSkip = (request: ApiRequest): boolean => {
+  return request.meta?.skipAuthRefresh === true;
+};
+
+/**
+ * 요청 전송 시점의 갱신 횟수를 기록하는 meta 키
+ */
+const GENERATION_KEY = 'authRefreshGeneration';
+
+/**
+ * ApiClient에 토큰 갱신 인터셉터 등록
+ *
+ * @param client - 인터셉터를 등록할 ApiClient
+ * @param options - 갱신 함수 및 실패 처리
+ * @returns 인터셉터 해제 함수
+ *
+ * @example
+ * // entities/auth/interceptors.ts
+ * setupTokenRefresh(apiClient, {
+ *   refresh: async () => (await apiClient.fetch(authApi.refresh())).success,
+ *   onRefreshFailed: redirectToSsoLogin,
+ * });
+ */
+export const setupTokenRefresh = (client: ApiClient, options: TokenRefreshOptions): (() => void) => {
+  // 진행 중인 갱신 작업 (없으면 null)
+  let refreshing: Promise<boolean> | null = null;
+  // 갱신 성공 횟수 (요청을 보낸 뒤 갱신되었는지 판단)
+  let generation = 0;
+
+  /**
+   * 갱신 실행 (이미 진행 중이면 같은 Promise 반환)
+   *
+   * @param requestId - 갱신을 시작한 요청 ID (추적 기록용)
+   */
+  const refreshOnce = (requestId: string): Promise<boolean> => {
+    if (!refreshing) {
+      refreshing = (async () => {
+        client.tracer.event(requestId, '401 received, refreshing token');
+
+        let success = false;
+        try {
+          success = await options.refresh();
+        } catch (error) {
+          client.tracer.event(requestId, `Token refresh error: ${String(error)}`, 'error');
+        }
+
+        if (success) {
+          generation += 1;
+        } else {
+          client.tracer.event(requestId, 'Token refresh failed', 'warn');
+          options.onRefreshFailed?.();
+        }
+
+        return success;
+      })().finally(() => {
+        refreshing = null;
+      });
+    }
+
+    return refreshing;
+  };
+
+  // 갱신 중에 시작된 요청은 갱신이 끝난 뒤 전송 (만료된 쿠키로 보내지 않도록)
+  // 전송 시점의 갱신 횟수를 기록 (호출부가 넘긴 meta 객체는 공유될 수 있으므로 복사)
+  const removeRequest = client.interceptors.request.use(async (request) => {
+    if (shouldSkip(request)) {
+      return request;
+    }
+    if (refreshing) {
+      await refreshing;
+    }
+    return { ...request, meta: { ...request.meta, [GENERATION_KEY]: generation } };
+  });
+
+  // 401 응답은 갱신 후 재전송
+  const removeResponse = client.interceptors.response.use(undefined, async (response, { request, replay }) => {
+    if (response.statusCode !== HTTP_STATUS.UNAUTHORIZED || shouldSkip(request)) {
+      return response;
+    }
+
+    // 보낸 뒤에 이미 갱신이 끝났으면 (동시에 실패한 요청 중 늦게 도착한 응답) 새 쿠키로 재전송만
+    const sentGeneration = request.meta[GENERATION_KEY];
+    if (typeof sentGeneration === 'number' && sentGeneration < generation) {
+      return replay();
+    }
+
+    const refreshed = await refreshOnce(request.id);
+    return refreshed ? replay() : response;
+  });
+
+  return () => {
+    removeRequest();
+    removeResponse();
+  };
+};
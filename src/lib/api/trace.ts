@@ -0,0 +1,258 @@
+/**
+ * API 요청 추적 (Correlation ID + Trace 기록)
+ *
+ * 왜 필요한가?
+ * - 작업자가 문의한 오류를 백엔드 로그와 연결할 방법이 없음
+ * - 모든 요청에 X-Request-Id(UUID)를 붙이고, 응답에도 같은 ID를 노출
+ * - 흩어진 console.log 대신 요청별 기록(상태, 소요 시간, 이벤트)을 한 곳에 모음
+ *
+ * 기록 범위:
+ * - 운영: 메서드, URL, 상태, 소요 시간, 요청 ID (최근 N건만 메모리에 유지)
+ * - 개발: 위 정보 + 요청/응답 본문, 콘솔 출력 (네트워크 인스펙터에서 확인)
+ */
+
+import type { ApiResponse, HttpMethod } from '../types';
+
+/**
+ * 요청 ID 헤더 이름
+ */
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+/**
+ * 요청 ID 생성 (UUID v4)
+ *
+ * 왜 fallback이 있는가?
+ * - crypto.randomUUID는 HTTPS(보안 컨텍스트)에서만 동작
+ * - 사내망 HTTP 환경에서도 동작해야 함
+ */
+export const createRequestId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    try {
+      return crypto.randomUUID();
+    } catch {
+      // 보안 컨텍스트가 아니면 아래 fallback 사용
+    }
+  }
+
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  bytes[6] = (bytes[6] & 0x0f) | 0x40; // version 4
+  bytes[8] = (bytes[8] & 0x3f) | 0x80; // variant
+
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+/**
+ * 요청 처리 중 발생한 이벤트 (재시도, 중복 제거, 취소 등)
+ */
+export interface TraceEvent {
+  /** 발생 시각 (타임스탬프) */
+  time: number;
+  /** 수준 */
+  level: 'info' | 'warn' | 'error';
+  /** 내용 */
+  message: string;
+}
+
+/**
+ * 요청 1건의 추적 기록
+ */
+export interface TraceRecord {
+  /** 요청 ID (X-Request-Id) */
+  id: string;
+  /** HTTP 메서드 */
+  method: HttpMethod;
+  /** 요청 URL */
+  url: string;
+  /** HTTP 상태 코드 (진행 중이면 null, 네트워크 에러는 0) */
+  status: number | null;
+  /** 성공 여부 (진행 중이면 null) */
+  success: boolean | null;
+  /** 시작 시각 (타임스탬프) */
+  startedAt: number;
+  /** 소요 시간 (밀리초, 진행 중이면 null) */
+  duration: number | null;
+  /** 이벤트 목록 */
+  events: TraceEvent[];
+  /** 요청 본문 (capturePayloads일 때만) */
+  requestBody?: unknown;
+  /** 응답 데이터 또는 에러 (capturePayloads일 때만) */
+  responseBody?: unknown;
+}
+
+/**
+ * 추적 설정
+ */
+export interface TracerOptions {
+  /** 보관할 최대 기록 수 */
+  limit?: number;
+  /** 요청/응답 본문 기록 여부 (개발 환경에서만 권장 - 개인정보, 메모리) */
+  capturePayloads?: boolean;
+  /** 이벤트를 콘솔에도 출력 */
+  console?: boolean;
+}
+
+/**
+ * 기록 변경 구독 함수
+ */
+type TraceListener = () => void;
+
+/**
+ * 본문을 기록 가능한 형태로 변환
+ *
+ * 왜 필요한가?
+ * - FormData, Blob, Stream은 그대로 보관하면 메모리를 오래 점유하고 인스펙터에서 읽을 수 없음
+ */
+const toTraceBody = (body: unknown): unknown => {
+  if (typeof FormData !== 'undefined' && body instanceof FormData) {
+    return '[FormData]';
+  }
+  if (typeof Blob !== 'undefined' && body instanceof Blob) {
+    return `[Blob ${body.type || 'unknown'} ${body.size} bytes]`;
+  }
+  if (typeof ReadableStream !== 'undefined' && body instanceof ReadableStream) {
+    return '[ReadableStream]';
+  }
+  if (body instanceof ArrayBuffer) {
+    return `[ArrayBuffer ${body.byteLength} bytes]`;
+  }
+  return body;
+};
+
+/**
+ * API 추적 클래스
+ *
+ * @example
+ * // 네트워크 인스펙터 등에서 구독
+ * const unsubscribe = apiClient.tracer.subscribe(() => {
+ *   setRecords(apiClient.tracer.getRecords());
+ * });
+ */
+export class ApiTracer {
+  private records: TraceRecord[] = [];
+  private listeners = new Set<TraceListener>();
+  private options: Required<TracerOptions> = { limit: 50, capturePayloads: false, console: false };
+
+  /**
+   * 설정 변경 (EnvProvider에서 환경별로 설정)
+   */
+  configure = (options: TracerOptions): void => {
+    this.options = { ...this.options, ...options };
+  };
+
+  /**
+   * 요청 시작 기록
+   */
+  start = (id: string, method: HttpMethod, url: string, body?: unknown): void => {
+    this.records = [
+      {
+        id,
+        method,
+        url,
+        status: null,
+        success: null,
+        startedAt: Date.now(),
+        duration: null,
+        events: [],
+        requestBody: this.options.capturePayloads ? toTraceBody(body) : undefined,
+      },
+      ...this.records,
+    ].slice(0, this.options.limit);
+
+    this.notify();
+  };
+
+  /**
+   * 요청 완료 기록
+   */
+  finish = (id: string, response: ApiResponse<unknown>): void => {
+    this.update(id, (record) => {
+      const duration = Date.now() - record.startedAt;
+
+      if (this.options.console) {
+        const log = response.success ? console.log : console.warn;
+        log(`[ApiClient] ${record.method} ${record.url} → ${response.statusCode} (${duration}ms) [${id}]`);
+      }
+
+      return {
+        ...record,
+        status: response.statusCode,
+        success: response.success,
+        duration,
+        responseBody: this.options.capturePayloads
+          ? toTraceBody(response.success ? response.data : response.error)
+          : undefined,
+      };
+    });
+  };
+
+  /**
+   * 요청별 이벤트 기록 (id가 없으면 콘솔에만 출력)
+   */
+  event = (id: string | null, message: string, level: TraceEvent['level'] = 'info'): void => {
+    if (this.options.console || level === 'error') {
+      const log = level === 'info' ? console.log : level === 'warn' ? console.warn : console.error;
+      log(`[ApiClient] ${message}${id ? ` [${id}]` : ''}`);
+    }
+
+    if (id) {
+      this.update(id, (record) => ({
+        ...record,
+        events: [...record.events, { time: Date.now(), level, message }],
+      }));
+    }
+  };
+
+  /**
+   * 최근 기록 (최신순)
+   *
+   * 왜 같은 배열 참조를 반환하는가?
+   * - useSyncExternalStore의 스냅샷으로 사용 (변경이 있을 때만 새 배열 생성)
+   */
+  getRecords = (): TraceRecord[] => {
+    return this.records;
+  };
+
+  /**
+   * 기록 삭제
+   */
+  clear = (): void => {
+    this.records = [];
+    this.notify();
+  };
+
+  /**
+   * 기록 변경 구독
+   *
+   * @returns 구독 해제 함수
+   */
+  subscribe = (listener: TraceListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * 단일 기록 갱신 (불변 업데이트)
+   */
+  private update = (id: string, updater: (record: TraceRecord) => TraceRecord): void => {
+    let changed = false;
+    this.records = this.records.map((record) => {
+      if (record.id !== id) {
+        return record;
+      }
+      changed = true;
+      return updater(record);
+    });
+
+    if (changed) {
+      this.notify();
+    }
+  };
+
+  private notify = (): void => {
+    this.listeners.forEach((listener) => listener());
+  };
+}
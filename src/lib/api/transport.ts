@@ -0,0 +1,32 @@
+/**
+ * API 전송 계층 (Transport)
+ *
+ * 왜 분리했는가?
+ * - ApiClient는 요청 구성/재시도/응답 처리만 담당하고, 실제 전송 방법은 교체 가능하게 함
+ * - 백엔드 없이 개발할 때 mock transport로 바꾸면 인터셉터, 재시도, 에러 분류가 그대로 동작
+ *
+ * 규칙 (fetch와 동일):
+ * - HTTP 에러 상태(4xx, 5xx)도 Response로 반환
+ * - 네트워크 에러는 TypeError, 중단은 signal.reason으로 reject
+ */
+
+import type { ApiRequest } from './interceptors';
+import { fetchWithUploadProgress } from './upload';
+
+/**
+ * 전송 함수
+ *
+ * @param url - 최종 요청 URL
+ * @param init - fetch 옵션 (body 직렬화, signal 결합 완료)
+ * @param request - 원본 요청 정보 (진행률 콜백, meta 등)
+ */
+export type Transport = (url: string, init: RequestInit, request: ApiRequest) => Promise<Response>;
+
+/**
+ * 기본 전송 (브라우저 fetch)
+ *
+ * 업로드 진행률 콜백이 있으면 XHR로 전송 (fetch는 업로드 진행률 미지원)
+ */
+export const fetchTransport: Transport = (url, init, request) => {
+  return request.onUploadProgress ? fetchWithUploadProgress(url, init, request.onUploadProgress) : fetch(url, init);
+};
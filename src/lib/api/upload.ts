@@ -0,0 +1,189 @@
+/**
+ * 파일 업로드 (multipart/form-data + 진행률)
+ *
+ * 왜 필요한가?
+ * - 일반 요청은 data를 JSON.stringify하므로 파일을 보낼 수 없음
+ * - fetch는 업로드 진행률 이벤트를 제공하지 않음 → XMLHttpRequest 사용
+ * - 전송 전에 FILE_UPLOAD 제한(크기, 확장자)을 검사하여 불필요한 업로드 방지
+ *
+ * 왜 XHR 결과를 Response로 변환하는가?
+ * - ApiClient.handleResponse를 그대로 재사용하여 같은 ApiResponse<T> 형식 유지
+ */
+
+import { FILE_UPLOAD } from '../constants';
+import { formatFileSize } from '../utils';
+import { createAbortError } from './signal';
+
+/**
+ * 업로드 진행률
+ */
+export interface UploadProgress {
+  /** 전송된 바이트 */
+  loaded: number;
+  /** 전체 바이트 (알 수 없으면 0) */
+  total: number;
+  /** 진행률 (0 ~ 100) */
+  percent: number;
+}
+
+/**
+ * 업로드 파일 제한
+ */
+export interface UploadLimits {
+  /** 최대 파일 크기 (바이트) */
+  maxSize?: number;
+  /** 허용 확장자 (예: ['.pdf', '.png']) */
+  allowedExtensions?: readonly string[];
+}
+
+/**
+ * 업로드 파일 검증
+ *
+ * @param files - 검증할 파일 목록
+ * @param limits - 제한 (생략 시 FILE_UPLOAD 기본값)
+ * @returns 에러 메시지 (문제가 없으면 null)
+ */
+export const validateUploadFiles = (files: File[], limits: UploadLimits = {}): string | null => {
+  const maxSize = limits.maxSize ?? FILE_UPLOAD.MAX_SIZE;
+  const allowedExtensions: readonly string[] = limits.allowedExtensions ?? FILE_UPLOAD.ALLOWED_EXTENSIONS;
+
+  for (const file of files) {
+    if (file.size > maxSize) {
+      return `${file.name}: 파일 크기는 ${formatFileSize(maxSize)} 이하여야 합니다`;
+    }
+
+    const dotIndex = file.name.lastIndexOf('.');
+    const extension = dotIndex >= 0 ? file.name.slice(dotIndex).toLowerCase() : '';
+    if (!allowedExtensions.includes(extension)) {
+      return `${file.name}: 허용되지 않는 파일 형식입니다 (${allowedExtensions.join(', ')})`;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * FormData에 포함된 파일 목록 추출
+ */
+export const getFormDataFiles = (formData: FormData): File[] => {
+  const files: File[] = [];
+  formData.forEach((value) => {
+    if (value instanceof File) {
+      files.push(value);
+    }
+  });
+  return files;
+};
+
+/**
+ * File[] + 추가 필드로 FormData 생성
+ *
+ * @param files - 업로드할 파일
+ * @param fieldName - 파일 필드 이름 (서버에서 받는 키)
+ * @param fields - 함께 보낼 일반 필드 (예: { category: 'report' })
+ */
+export const buildUploadFormData = (
+  files: File[],
+  fieldName: string,
+  fields?: Record<string, string | Blob>
+): FormData => {
+  const formData = new FormData();
+
+  files.forEach((file) => formData.append(fieldName, file));
+  Object.entries(fields ?? {}).forEach(([key, value]) => formData.append(key, value));
+
+  return formData;
+};
+
+/**
+ * XHR 응답 헤더 문자열을 Headers로 변환
+ */
+const parseXhrHeaders = (raw: string): Headers => {
+  const headers = new Headers();
+
+  raw
+    .trim()
+    .split(/[\r\n]+/)
+    .forEach((line) => {
+      const index = line.indexOf(':');
+      if (index > 0) {
+        headers.append(line.slice(0, index).trim(), line.slice(index + 1).trim());
+      }
+    });
+
+  return headers;
+};
+
+/**
+ * 본문이 없어야 하는 상태 코드 (Response 생성자 제약)
+ */
+const NULL_BODY_STATUSES = [204, 205, 304];
+
+/**
+ * 진행률 이벤트를 지원하는 fetch 대체 함수 (XMLHttpRequest 기반)
+ *
+ * fetch와 같은 규칙으로 동작:
+ * - 네트워크 에러 → TypeError
+ * - signal 중단 → signal.reason (없으면 AbortError)
+ * - HTTP 에러 상태(4xx, 5xx)도 Response로 반환
+ *
+ * @param url - 요청 URL
+ * @param init - fetch 옵션 (method, headers, body, credentials, signal)
+ * @param onProgress - 업로드 진행률 콜백
+ */
+export const fetchWithUploadProgress = (
+  url: string,
+  init: RequestInit,
+  onProgress: (progress: UploadProgress) => void
+): Promise<Response> => {
+  return new Promise<Response>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const { signal } = init;
+
+    if (signal?.aborted) {
+      reject(signal.reason ?? createAbortError());
+      return;
+    }
+
+    xhr.open(init.method ?? 'POST', url);
+    xhr.responseType = 'blob';
+    xhr.withCredentials = init.credentials === 'include';
+    new Headers(init.headers).forEach((value, key) => xhr.setRequestHeader(key, value));
+
+    xhr.upload.onprogress = (event) => {
+      const total = event.lengthComputable ? event.total : 0;
+      onProgress({
+        loaded: event.loaded,
+        total,
+        percent: total ? Math.round((event.loaded / total) * 100) : 0,
+      });
+    };
+
+    const handleAbort = () => xhr.abort();
+    signal?.addEventListener('abort', handleAbort, { once: true });
+
+    const cleanup = () => signal?.removeEventListener('abort', handleAbort);
+
+    xhr.onload = () => {
+      cleanup();
+      const body = NULL_BODY_STATUSES.includes(xhr.status) ? null : xhr.response;
+      resolve(
+        new Response(body, {
+          status: xhr.status,
+          statusText: xhr.statusText,
+          headers: parseXhrHeaders(xhr.getAllResponseHeaders()),
+        })
+      );
+    };
+    xhr.onerror = () => {
+      cleanup();
+      reject(new TypeError('Network request failed'));
+    };
+    xhr.onabort = () => {
+      cleanup();
+      reject(signal?.reason ?? createAbortError());
+    };
+
+    xhr.send(init.body as XMLHttpRequestBodyInit | null | undefined);
+  });
+};
@@ -18,8 +18,73 @@ export const API_CONFIG = {
   TIMEOUT: 30000,
   /** 재시도 횟수 */
   RETRY_COUNT: 3,
-  /** 재시도 딜레이 (밀리초) */
+  /** 재시도 딜레이 (밀리초) - 지수 백오프의 시작 값 */
   RETRY_DELAY: 1000,
+  /** 재시도 딜레이 상한 (밀리초) */
+  RETRY_MAX_DELAY: 10000,
+  /** 재시도 대상 HTTP 상태 코드 (게이트웨이/일시적 장애) */
+  RETRY_STATUS_CODES: [502, 503, 504] as readonly number[],
+  /** 호스트별 최대 동시 요청 수 (0: 제한 없음) */
+  MAX_CONCURRENT_PER_HOST: 6,
+  /** 호스트별 초당 요청 수 (토큰 버킷 충전 속도, 0: 제한 없음) */
+  RATE_LIMIT_PER_SECOND: 20,
+  /** 한 번에 몰아서 보낼 수 있는 최대 요청 수 (토큰 버킷 크기) */
+  RATE_LIMIT_BURST: 20,
+  /** 429/503 Retry-After 재예약 최대 횟수 */
+  RETRY_AFTER_MAX_COUNT: 3,
+  /** Retry-After 최대 대기 시간 (밀리초) - 더 길면 기다리지 않고 실패 응답 반환 */
+  RETRY_AFTER_MAX_DELAY: 60000,
+  /** CSRF 토큰 쿠키 이름 (Double-Submit Cookie, 서버가 httpOnly 없이 설정) */
+  CSRF_COOKIE_NAME: 'XSRF-TOKEN',
+  /** CSRF 토큰을 담아 보낼 헤더 이름 */
+  CSRF_HEADER_NAME: 'X-XSRF-TOKEN',
+  /** CSRF 쿠키가 없을 때 토큰을 발급받는 API */
+  CSRF_BOOTSTRAP_URL: '/api/csrf',
+  /** 일괄 전송 API 경로 (서비스 baseURL 기준) */
+  BATCH_URL: '/batch',
+  /** 한 번에 묶을 최대 요청 수 */
+  BATCH_MAX_SIZE: 20,
+  /** 요청을 모으는 시간 (밀리초, 0: 같은 틱에 발생한 요청만) */
+  BATCH_DELAY: 0,
+  /** ETag를 기억할 최대 URL 수 (If-None-Match 조건부 요청) */
+  ETAG_MAX_ENTRIES: 200,
+  /** 페이지 순회 최대 페이지 수 (다음 페이지 조건 오류로 인한 무한 요청 방지) */
+  PAGINATE_MAX_PAGES: 1000,
+  /** fetchAll() 동시 요청 페이지 수 */
+  PAGINATE_CONCURRENCY: 4,
+  /** GraphQL 엔드포인트 경로 (서비스 baseURL 기준) */
+  GRAPHQL_URL: '/graphql',
+  /** 스트림 재연결 간격 (밀리초, SSE retry: 필드가 있으면 우선) */
+  STREAM_RETRY_DELAY: 3000,
+  /** 스트림 연속 재연결 최대 횟수 (이벤트를 받으면 초기화) */
+  STREAM_MAX_RECONNECTS: 10,
+  /** Query String 배열 형식 (repeat: ids=1&ids=2, brackets: ids[]=1, comma: ids=1,2) */
+  QUERY_ARRAY_FORMAT: 'repeat' as 'repeat' | 'brackets' | 'comma',
+  /**
+   * 응답 스키마(ApiSpec.schema) 검증 모드
+   *
+   * - strict: 불일치 시 실패 응답 (개발 중 계약 변경을 바로 발견)
+   * - warn: 경고만 출력 (운영에서는 화면 동작 유지 우선)
+   */
+  SCHEMA_VALIDATION: (process.env.NODE_ENV === 'production' ? 'warn' : 'strict') as 'strict' | 'warn',
+} as const;
+
+/**
+ * WebSocket 설정 (src/lib/socket-client.ts)
+ *
+ * 접속 URL은 배포 환경마다 다르므로 EnvConfig.WS_URL에서 설정
+ */
+export const SOCKET_CONFIG = {
+  /** 첫 재연결 대기 시간 (밀리초, 실패할 때마다 2배) */
+  RECONNECT_DELAY: 1000,
+  /** 최대 재연결 대기 시간 (밀리초) */
+  RECONNECT_MAX_DELAY: 30000,
+  /** heartbeat(ping) 전송 간격 (밀리초) */
+  HEARTBEAT_INTERVAL: 25000,
+  /** ping 후 이 시간 동안 아무 메시지도 없으면 끊긴 연결로 보고 재연결 (밀리초) */
+  HEARTBEAT_TIMEOUT: 10000,
+  /** 연결이 끊긴 동안 보관할 최대 송신 메시지 수 (초과 시 오래된 것부터 버림) */
+  BUFFER_SIZE: 100,
 } as const;
 
 /**
@@ -52,6 +117,10 @@ export const STORAGE_KEYS = {
   THEME: 'theme',
   /** 언어 설정 */
   LANGUAGE: 'language',
+  /** API 응답 캐시 키 접두사 (ApiSpec.cache.persist 사용 시) */
+  API_CACHE_PREFIX: 'api-cache:',
+  /** 오프라인 중 보관한 변경 요청 (RequestOptions.offline 사용 시) */
+  OFFLINE_QUEUE: 'api-offline-queue',
 } as const;
 
 /**
@@ -139,11 +208,18 @@ export const HTTP_STATUS = {
   OK: 200,
   CREATED: 201,
   NO_CONTENT: 204,
+  NOT_MODIFIED: 304,
   BAD_REQUEST: 400,
   UNAUTHORIZED: 401,
   FORBIDDEN: 403,
   NOT_FOUND: 404,
+  REQUEST_TIMEOUT: 408,
+  CONFLICT: 409,
+  PRECONDITION_FAILED: 412,
+  UNPROCESSABLE_ENTITY: 422,
+  TOO_MANY_REQUESTS: 429,
   INTERNAL_SERVER_ERROR: 500,
+  SERVICE_UNAVAILABLE: 503,
 } as const;
 
 /**
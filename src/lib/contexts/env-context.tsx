@@ -4,7 +4,7 @@
  * 왜 필요한가?
  * - 정적 배포 환경에서 런타임에 환경변수를 로드하기 위함
  * - public/config.js에서 설정을 읽어서 전역으로 제공
- * - apiClient의 baseURL을 런타임에 설정
+ * - apiClient의 baseURL, 전송 계층(Mock 여부)을 런타임에 설정
  *
  * 설계 원칙:
  * - 앱 최상위에서 한 번만 초기화
@@ -16,17 +16,48 @@
 
 import { createContext, useContext, useEffect, useState, type ReactNode } from 'react';
 import { apiClient } from '../api-client';
+import { mockTransport } from '../api/mock-transport';
+import { socketClient } from '../socket-client';
+import type { ApiServiceConfig, ApiServiceName } from '../types';
 
 /**
  * 환경 변수 타입
  */
 export interface EnvConfig {
-  /** API 기본 URL */
+  /** API 기본 URL (기본 서비스 'core') */
   API_BASE_URL: string;
+  /**
+   * 그 외 서비스(백엔드)별 설정 - baseURL, 타임아웃, 헤더
+   *
+   * @example
+   * { reporting: { baseURL: 'https://report.example.com', timeout: 120000 } }
+   */
+  API_SERVICES?: Partial<Record<ApiServiceName, ApiServiceConfig>>;
   /** SSO 로그인 페이지 URL */
   SSO_LOGIN_URL: string;
   /** 환경 이름 */
   ENV: string;
+  /** 백엔드 대신 Mock 응답 사용 (기본값: false) */
+  API_MOCK?: boolean;
+  /** Mock 응답 지연 시간 (밀리초) */
+  API_MOCK_LATENCY?: number;
+  /** Mock 무작위 에러 비율 (0 ~ 1) */
+  API_MOCK_ERROR_RATE?: number;
+  /** 호스트별 최대 동시 요청 수 (기본값: API_CONFIG.MAX_CONCURRENT_PER_HOST, 0: 제한 없음) */
+  API_MAX_CONCURRENT?: number;
+  /** 호스트별 초당 요청 수 (기본값: API_CONFIG.RATE_LIMIT_PER_SECOND, 0: 제한 없음) */
+  API_RATE_LIMIT?: number;
+  /** 한 번에 몰아서 보낼 수 있는 최대 요청 수 (기본값: API_CONFIG.RATE_LIMIT_BURST) */
+  API_RATE_LIMIT_BURST?: number;
+  /** 같은 틱의 조회(GET)를 POST /batch로 자동 묶음 (기본값: false, batch API가 있는 백엔드만) */
+  API_BATCH?: boolean;
+  /**
+   * WebSocket 접속 URL (src/lib/socket-client.ts)
+   *
+   * - ws://, wss:// 또는 현재 페이지 기준 경로 (예: '/ws')
+   * - 비어 있으면 연결하지 않음 (Header에 연결 상태도 표시되지 않음)
+   */
+  WS_URL?: string;
 }
 
 /**
@@ -47,6 +78,46 @@ const defaultEnv: EnvConfig = {
   ENV: 'development',
 };
 
+/**
+ * 환경 설정을 apiClient에 적용
+ *
+ * - 요청 추적: 개발 환경에서만 요청/응답 본문 기록 + 콘솔 출력
+ * - baseURL, 서비스별 설정, 동시 요청/속도 제한, 자동 묶음 설정
+ * - WebSocket 접속 URL (연결은 첫 구독 시점)
+ * - API_MOCK이면 Mock route를 불러와 등록하고 전송 계층을 mockTransport로 교체 (아니면 기본 fetch)
+ * - 오프라인 큐에 남은 변경 요청 재전송
+ */
+const applyEnv = async (env: EnvConfig): Promise<void> => {
+  const isDevelopment = env.ENV === 'development';
+  apiClient.tracer.configure({ capturePayloads: isDevelopment, console: isDevelopment });
+
+  apiClient.setBaseURL(env.API_BASE_URL);
+  if (env.API_SERVICES) {
+    apiClient.configureServices(env.API_SERVICES);
+  }
+  apiClient.setRateLimit({
+    maxConcurrent: env.API_MAX_CONCURRENT,
+    requestsPerSecond: env.API_RATE_LIMIT,
+    burst: env.API_RATE_LIMIT_BURST,
+  });
+  apiClient.setBatching({ auto: env.API_BATCH });
+  socketClient.configure({ url: env.WS_URL ?? '' });
+
+  if (env.API_MOCK) {
+    // 테스트 계정 등 Mock 응답은 API_MOCK일 때만 로드 (운영 번들의 초기 로드에 포함하지 않음)
+    const { setupAuthMocks } = await import('@/entities/auth/mocks');
+    setupAuthMocks();
+    mockTransport.configure({ latency: env.API_MOCK_LATENCY, errorRate: env.API_MOCK_ERROR_RATE });
+    apiClient.setTransport(mockTransport.handle);
+    apiClient.tracer.event(null, 'API mock enabled');
+  } else {
+    apiClient.setTransport();
+  }
+
+  // 이전 접속에서 보내지 못한 변경 요청이 있으면 새 설정으로 재전송
+  void apiClient.replayOfflineQueue();
+};
+
 /**
  * EnvContext
  */
@@ -65,12 +136,12 @@ interface EnvProviderProps {
  * 왜 이렇게 구현했는가?
  * 1. public/config.js를 동적으로 로드 (script 태그 삽입)
  * 2. window.__ENV__에서 설정을 읽음
- * 3. apiClient의 baseURL을 설정
+ * 3. apiClient의 baseURL, 전송 계층(API_MOCK)을 설정
  * 4. Context로 하위 컴포넌트에 제공
  *
  * 주의사항:
  * - 클라이언트 사이드에서만 실행됨 (use client)
- * - 로딩 완료 전까지 기본값 사용
+ * - 로딩 완료 전까지 하위 컴포넌트 렌더링 보류
  * - apiClient는 한 번만 초기화됨 (싱글톤)
  *
  * @example
@@ -100,10 +171,8 @@ export const EnvProvider = ({ children }: EnvProviderProps) => {
         const loadedEnv = window.__ENV__;
         setEnv(loadedEnv);
 
-        // apiClient의 baseURL 설정
-        apiClient.setBaseURL(loadedEnv.API_BASE_URL);
-
-        setIsLoaded(true);
+        // apiClient의 baseURL, 전송 계층 설정 (Mock route 로드가 끝난 뒤 렌더링)
+        void applyEnv(loadedEnv).finally(() => setIsLoaded(true));
         console.log('[EnvProvider] Config loaded from window.__ENV__:', loadedEnv);
         return;
       }
@@ -118,24 +187,20 @@ export const EnvProvider = ({ children }: EnvProviderProps) => {
           const loadedEnv = window.__ENV__;
           setEnv(loadedEnv);
 
-          // apiClient의 baseURL 설정
-          apiClient.setBaseURL(loadedEnv.API_BASE_URL);
-
-          setIsLoaded(true);
+          // apiClient의 baseURL, 전송 계층 설정 (Mock route 로드가 끝난 뒤 렌더링)
+          void applyEnv(loadedEnv).finally(() => setIsLoaded(true));
           console.log('[EnvProvider] Config loaded from /config.js:', loadedEnv);
         } else {
           console.warn('[EnvProvider] /config.js loaded but window.__ENV__ is undefined. Using default config.');
           // 기본값으로 apiClient 설정
-          apiClient.setBaseURL(defaultEnv.API_BASE_URL);
-          setIsLoaded(true);
+          void applyEnv(defaultEnv).finally(() => setIsLoaded(true));
         }
       };
 
       script.onerror = () => {
         console.error('[EnvProvider] Failed to load /config.js. Using default config.');
         // 기본값으로 apiClient 설정
-        apiClient.setBaseURL(defaultEnv.API_BASE_URL);
-        setIsLoaded(true);
+        void applyEnv(defaultEnv).finally(() => setIsLoaded(true));
       };
 
       document.head.appendChild(script);
@@ -151,14 +216,11 @@ export const EnvProvider = ({ children }: EnvProviderProps) => {
     loadConfig();
   }, []);
 
-  // 로딩 중에는 기본값으로 렌더링 (또는 로딩 스피너 표시 가능)
-  // apiClient는 이미 기본 BASE_URL로 초기화되어 있으므로 문제없음
+  // 설정 로드 전에는 하위 컴포넌트를 렌더링하지 않음
+  // 왜? 하위 컴포넌트의 첫 요청(AuthGuard의 loadUser 등)이 설정 적용 전에 나가면
+  // 잘못된 baseURL이나 (API_MOCK인데) 실제 서버로 전송됨
   if (!isLoaded) {
-    return (
-      <EnvContext.Provider value={env}>
-        {children}
-      </EnvContext.Provider>
-    );
+    return <EnvContext.Provider value={env}>{null}</EnvContext.Provider>;
   }
 
   return (
@@ -8,3 +8,5 @@
 
 export { useApiClient } from './use-api-client';
 export type { ApiState, UseApiClientReturn } from './use-api-client';
+export { useOfflineQueue } from './use-offline-queue';
+export { useSocket } from './use-socket';
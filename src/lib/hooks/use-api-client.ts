@@ -21,8 +21,9 @@
 
 import { useState, useCallback } from 'react';
 import { apiClient } from '../api-client';
-import type { ApiResponse, ApiSpec } from '../types';
+import type { ApiResponse, ApiSpec, AppError } from '../types';
 import type { RequestOptions } from '../api-client';
+import { createAppError } from '../api/errors';
 
 /**
  * API 상태 인터페이스
@@ -32,8 +33,8 @@ interface ApiState<T> {
   data: T | null;
   /** 로딩 중 여부 */
   loading: boolean;
-  /** 에러 메시지 */
-  error: string | null;
+  /** 에러 정보 (error.type으로 분기, error.message로 표시) */
+  error: AppError | null;
   /** HTTP 상태 코드 */
   statusCode: number | null;
 }
@@ -42,8 +43,8 @@ interface ApiState<T> {
  * useApiClient 반환 타입
  */
 interface UseApiClientReturn<T> extends ApiState<T> {
-  /** API 명세 객체를 받아서 실행 */
-  fetch: (apiSpec: ApiSpec) => Promise<ApiResponse<T>>;
+  /** API 명세 객체를 받아서 실행 (options.signal로 취소 가능) */
+  fetch: (apiSpec: ApiSpec, options?: RequestOptions) => Promise<ApiResponse<T>>;
   /** 상태 초기화 */
   reset: () => void;
   /** 데이터 수동 설정 */
@@ -82,7 +83,7 @@ interface UseApiClientReturn<T> extends ApiState<T> {
  * }, [fetch]);
  *
  * if (loading) return <div>로딩 중...</div>;
- * if (error) return <div>에러: {error}</div>;
+ * if (error) return <div>에러: {error.message}</div>;
  * if (!data) return null;
  *
  * return <UserList users={data} />;
@@ -148,9 +149,17 @@ export function useApiClient<T = unknown>(): UseApiClientReturn<T> {
    * // 컴포넌트에서
    * const { fetch, loading } = useApiClient<LoginResponse>();
    * const result = await fetch(authApi.login({ email, password }));
+   *
+   * @example
+   * // 검색어 입력 중 이전 요청 취소
+   * useEffect(() => {
+   *   const controller = new AbortController();
+   *   fetch(productApi.search({ q }), { signal: controller.signal });
+   *   return () => controller.abort();
+   * }, [q, fetch]);
    */
   const fetch = useCallback(
-    async (apiSpec: ApiSpec): Promise<ApiResponse<T>> => {
+    async (apiSpec: ApiSpec, options?: RequestOptions): Promise<ApiResponse<T>> => {
       // 1. 로딩 시작
       setState((prev) => ({
         ...prev,
@@ -160,9 +169,18 @@ export function useApiClient<T = unknown>(): UseApiClientReturn<T> {
 
       try {
         // 2. apiClient.fetch() 호출 (EnvProvider에서 이미 baseURL 설정됨)
-        const response = await apiClient.fetch<T>(apiSpec);
+        const response = await apiClient.fetch<T>(apiSpec, options);
+
+        // 3. 호출부가 취소한 요청은 에러로 표시하지 않음 (이전 데이터 유지)
+        if (response.abortReason === 'cancelled') {
+          setState((prev) => ({
+            ...prev,
+            loading: false,
+          }));
+          return response;
+        }
 
-        // 3. 성공 상태 업데이트
+        // 4. 성공 상태 업데이트
         if (response.success) {
           setState({
             data: response.data || null,
@@ -171,30 +189,30 @@ export function useApiClient<T = unknown>(): UseApiClientReturn<T> {
             statusCode: response.statusCode,
           });
         } else {
-          // 4. 실패 상태 업데이트
+          // 5. 실패 상태 업데이트
           setState({
             data: null,
             loading: false,
-            error: response.error || '알 수 없는 오류',
+            error: response.error ?? createAppError('UNKNOWN_ERROR', { statusCode: response.statusCode }),
             statusCode: response.statusCode,
           });
         }
 
         return response;
       } catch (error) {
-        // 5. 예외 처리
-        const errorMessage = error instanceof Error ? error.message : '알 수 없는 오류';
+        // 6. 예외 처리
+        const appError = createAppError('UNKNOWN_ERROR', { statusCode: 500, details: error });
         setState({
           data: null,
           loading: false,
-          error: errorMessage,
+          error: appError,
           statusCode: null,
         });
 
         // 에러를 ApiResponse 형식으로 반환
         return {
           success: false,
-          error: errorMessage,
+          error: appError,
           statusCode: 500,
           timestamp: new Date().toISOString(),
         };
@@ -0,0 +1,88 @@
+/**
+ * useOfflineQueue 커스텀 훅
+ *
+ * 왜 필요한가?
+ * - 오프라인 중 보관된 변경 요청 건수와 온라인 여부를 화면에 표시 (Header 등)
+ * - 재전송 결과(성공/충돌)를 컴포넌트에서 받아 안내
+ *
+ * 왜 useSyncExternalStore를 사용하는가?
+ * - offlineQueue와 navigator.onLine은 React 외부 저장소 → 변경 시에만 리렌더링
+ */
+
+'use client';
+
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import { apiClient } from '../api-client';
+import type { QueuedMutation, ReplayResult } from '../api/offline-queue';
+
+/**
+ * 서버 렌더링용 빈 스냅샷
+ */
+const EMPTY_ITEMS: QueuedMutation[] = [];
+
+/**
+ * online/offline 이벤트 구독
+ */
+const subscribeOnlineStatus = (listener: () => void): (() => void) => {
+  window.addEventListener('online', listener);
+  window.addEventListener('offline', listener);
+  return () => {
+    window.removeEventListener('online', listener);
+    window.removeEventListener('offline', listener);
+  };
+};
+
+/**
+ * useOfflineQueue 반환 타입
+ */
+interface UseOfflineQueueReturn {
+  /** 대기 중인 변경 요청 (오래된 순) */
+  items: QueuedMutation[];
+  /** 대기 건수 */
+  count: number;
+  /** 온라인 여부 */
+  isOnline: boolean;
+  /** 수동 재전송 */
+  replay: () => Promise<void>;
+}
+
+/**
+ * useOfflineQueue 훅
+ *
+ * @param onResult - 재전송 결과 콜백 (선택)
+ *
+ * @example
+ * const { count, isOnline } = useOfflineQueue(({ status, mutation }) => {
+ *   if (status === 'conflict') toast.warn(`${mutation.url} 변경 사항이 충돌했습니다`);
+ * });
+ */
+export const useOfflineQueue = (onResult?: (result: ReplayResult) => void): UseOfflineQueueReturn => {
+  const items = useSyncExternalStore(
+    apiClient.offlineQueue.subscribe,
+    apiClient.offlineQueue.getItems,
+    () => EMPTY_ITEMS
+  );
+
+  const isOnline = useSyncExternalStore(
+    subscribeOnlineStatus,
+    () => navigator.onLine,
+    () => true
+  );
+
+  // 렌더링마다 바뀌는 콜백으로 재구독하지 않도록 ref에 보관
+  const onResultRef = useRef(onResult);
+  useEffect(() => {
+    onResultRef.current = onResult;
+  }, [onResult]);
+
+  useEffect(() => {
+    return apiClient.offlineQueue.onResult((result) => onResultRef.current?.(result));
+  }, []);
+
+  return {
+    items,
+    count: items.length,
+    isOnline,
+    replay: apiClient.replayOfflineQueue,
+  };
+};
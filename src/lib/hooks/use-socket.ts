@@ -0,0 +1,80 @@
+/**
+ * useSocket 커스텀 훅
+ *
+ * 왜 필요한가?
+ * - 컴포넌트가 마운트되어 있는 동안만 토픽을 구독하고, 언마운트되면 자동으로 구독 해제
+ * - 연결 상태를 화면에 표시 (Header, 대시보드의 "실시간" 배지 등)
+ *
+ * 왜 useSyncExternalStore를 사용하는가?
+ * - 연결 상태는 socketClient(React 외부)에 있으므로 변경 시에만 리렌더링
+ */
+
+'use client';
+
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { socketClient, type SocketState } from '../socket-client';
+
+/**
+ * 서버 렌더링용 상태
+ */
+const getServerState = (): SocketState => 'idle';
+
+/**
+ * useSocket 반환 타입
+ */
+interface UseSocketReturn<T> {
+  /** 연결 상태 */
+  state: SocketState;
+  /** 연결 여부 (state === 'open') */
+  isConnected: boolean;
+  /** 마지막으로 받은 메시지 (topic을 지정한 경우) */
+  lastMessage: T | null;
+  /** 토픽으로 메시지 전송 (연결이 끊겨 있으면 연결 후 전송) */
+  send: (topic: string, data: unknown) => void;
+}
+
+/**
+ * useSocket 훅
+ *
+ * @param topic - 구독할 토픽 (생략하면 연결 상태만 사용)
+ * @param onMessage - 메시지 수신 콜백 (선택)
+ *
+ * @example
+ * // 설비 상태 실시간 반영
+ * const { lastMessage, isConnected } = useSocket<EquipmentStatus>('equipment.status');
+ *
+ * // 메시지마다 처리 (목록 갱신 등)
+ * useSocket<EquipmentStatus>('equipment.status', (status) => updateEquipment(status));
+ *
+ * // 연결 상태만 (Header)
+ * const { state } = useSocket();
+ */
+export const useSocket = <T = unknown>(topic?: string | null, onMessage?: (data: T) => void): UseSocketReturn<T> => {
+  const state = useSyncExternalStore(socketClient.subscribeState, socketClient.getState, getServerState);
+  // 토픽이 바뀌면 이전 토픽의 메시지를 반환하지 않도록 토픽과 함께 보관
+  const [received, setReceived] = useState<{ topic: string; data: T } | null>(null);
+
+  // 렌더링마다 바뀌는 콜백으로 재구독하지 않도록 ref에 보관
+  const onMessageRef = useRef(onMessage);
+  useEffect(() => {
+    onMessageRef.current = onMessage;
+  }, [onMessage]);
+
+  useEffect(() => {
+    if (!topic) {
+      return;
+    }
+
+    return socketClient.subscribe<T>(topic, (data) => {
+      setReceived({ topic, data });
+      onMessageRef.current?.(data);
+    });
+  }, [topic]);
+
+  return {
+    state,
+    isConnected: state === 'open',
+    lastMessage: received && received.topic === topic ? received.data : null,
+    send: socketClient.send,
+  };
+};
@@ -0,0 +1,483 @@
+/**
+ * WebSocket 클라이언트
+ *
+ * 왜 필요한가?
+ * - 대시보드의 설비 상태처럼 서버가 먼저 알려야 하는 값은 폴링하면 지연과 요청 낭비가 큼
+ * - 화면마다 new WebSocket()을 만들면 재연결, heartbeat, 구독 복구를 매번 다시 구현해야 함
+ * - 연결 하나를 공유하고 화면은 토픽 단위로 구독만 함
+ *
+ * 제공 기능:
+ * - 재연결: 끊기면 대기 시간을 2배씩 늘려가며 재연결 (브라우저가 온라인으로 바뀌면 즉시)
+ * - heartbeat: 주기적으로 ping을 보내고 응답이 없으면 끊긴 연결로 보고 재연결
+ *   (공유기/프록시가 조용히 끊은 연결은 close 이벤트가 오지 않음)
+ * - 토픽 구독: 첫 구독자가 생기면 subscribe, 마지막 구독자가 떠나면 unsubscribe 전송
+ * - 재연결 후 구독 중인 토픽을 다시 subscribe
+ * - 연결이 끊긴 동안 보낸 메시지는 보관했다가 연결되면 순서대로 전송
+ *
+ * 접속 URL:
+ * - EnvConfig.WS_URL (비어 있으면 연결하지 않음 - 상태 'idle')
+ * - 첫 구독/전송 시점에 연결 (사용하지 않는 화면에서는 연결하지 않음)
+ * - 인증은 같은 도메인 쿠키가 핸드셰이크에 자동으로 포함됨
+ */
+
+import { apiClient } from './api-client';
+import { SOCKET_CONFIG } from './constants';
+
+/**
+ * 연결 상태
+ *
+ * - idle: URL 미설정 또는 아직 사용하지 않음
+ * - connecting: 첫 연결 중
+ * - open: 연결됨
+ * - reconnecting: 끊긴 후 재연결 대기/시도 중
+ * - closed: disconnect()로 직접 종료
+ */
+export type SocketState = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+/**
+ * 수신 메시지 해석 결과
+ */
+export interface SocketMessage {
+  /** 토픽 (없으면 구독자에게 전달하지 않음) */
+  topic?: string;
+  /** 메시지 데이터 */
+  data: unknown;
+  /** heartbeat 응답 여부 (구독자에게 전달하지 않음) */
+  pong?: boolean;
+}
+
+/**
+ * 송수신 메시지 형식
+ *
+ * 왜 교체 가능하게 했는가?
+ * - 백엔드마다 구독/heartbeat 메시지 형식이 다름 (자체 JSON, STOMP 유사 형식 등)
+ * - 형식만 바꾸면 재연결/구독 복구/버퍼 로직은 그대로 사용
+ */
+export interface SocketProtocol {
+  /** 구독 요청 메시지 */
+  subscribe: (topic: string) => string;
+  /** 구독 해제 메시지 */
+  unsubscribe: (topic: string) => string;
+  /** heartbeat 메시지 */
+  ping: () => string;
+  /** 토픽으로 보내는 메시지 */
+  publish: (topic: string, data: unknown) => string;
+  /** 수신 메시지 해석 (형식이 맞지 않으면 null) */
+  decode: (raw: string) => SocketMessage | null;
+}
+
+/**
+ * 기본 형식
+ *
+ * @example
+ * // 송신: { "type": "subscribe", "topic": "equipment.status" }
+ * //       { "type": "ping" }
+ * //       { "type": "publish", "topic": "equipment.command", "data": { ... } }
+ * // 수신: { "topic": "equipment.status", "data": { "id": "EQ-01", "status": "RUN" } }
+ * //       { "type": "pong" }
+ */
+export const defaultSocketProtocol: SocketProtocol = {
+  subscribe: (topic) => JSON.stringify({ type: 'subscribe', topic }),
+  unsubscribe: (topic) => JSON.stringify({ type: 'unsubscribe', topic }),
+  ping: () => JSON.stringify({ type: 'ping' }),
+  publish: (topic, data) => JSON.stringify({ type: 'publish', topic, data }),
+  decode: (raw) => {
+    try {
+      const message = JSON.parse(raw);
+      if (message?.type === 'pong') {
+        return { data: null, pong: true };
+      }
+      return { topic: typeof message?.topic === 'string' ? message.topic : undefined, data: message?.data };
+    } catch {
+      return null;
+    }
+  },
+};
+
+/**
+ * WebSocket 설정
+ */
+export interface SocketOptions {
+  /** 접속 URL (ws://, wss:// 또는 현재 페이지 기준 경로 '/ws' / 비어 있으면 연결하지 않음) */
+  url?: string;
+  /** 메시지 형식 (기본값: defaultSocketProtocol) */
+  protocol?: SocketProtocol;
+  /** 첫 재연결 대기 시간 (기본값: SOCKET_CONFIG.RECONNECT_DELAY) */
+  reconnectDelay?: number;
+  /** 최대 재연결 대기 시간 (기본값: SOCKET_CONFIG.RECONNECT_MAX_DELAY) */
+  reconnectMaxDelay?: number;
+  /** heartbeat 간격 (기본값: SOCKET_CONFIG.HEARTBEAT_INTERVAL, 0: 사용 안 함) */
+  heartbeatInterval?: number;
+  /** heartbeat 응답 대기 시간 (기본값: SOCKET_CONFIG.HEARTBEAT_TIMEOUT) */
+  heartbeatTimeout?: number;
+  /** 연결이 끊긴 동안 보관할 최대 메시지 수 (기본값: SOCKET_CONFIG.BUFFER_SIZE) */
+  bufferSize?: number;
+}
+
+/**
+ * 토픽 메시지 구독자
+ */
+type TopicListener = (data: unknown) => void;
+
+/**
+ * 상대 경로/http(s) URL → ws(s) URL
+ */
+const toWebSocketURL = (url: string): string => {
+  const resolved = new URL(url, window.location.href);
+  if (resolved.protocol === 'http:') {
+    resolved.protocol = 'ws:';
+  } else if (resolved.protocol === 'https:') {
+    resolved.protocol = 'wss:';
+  }
+  return resolved.toString();
+};
+
+/**
+ * WebSocket 클라이언트 클래스
+ *
+ * Singleton 패턴 사용 이유:
+ * - 화면/컴포넌트가 많아도 서버 연결은 하나만 유지
+ * - 연결 상태를 Header 등 여러 곳에서 같은 값으로 표시
+ *
+ * @example
+ * const unsubscribe = socketClient.subscribe<EquipmentStatus>('equipment.status', (status) => {
+ *   updateEquipment(status);
+ * });
+ * socketClient.send('equipment.command', { id: 'EQ-01', command: 'STOP' });
+ * unsubscribe();
+ */
+export class SocketClient {
+  private static instance: SocketClient;
+
+  private options: Required<SocketOptions> = {
+    url: '',
+    protocol: defaultSocketProtocol,
+    reconnectDelay: SOCKET_CONFIG.RECONNECT_DELAY,
+    reconnectMaxDelay: SOCKET_CONFIG.RECONNECT_MAX_DELAY,
+    heartbeatInterval: SOCKET_CONFIG.HEARTBEAT_INTERVAL,
+    heartbeatTimeout: SOCKET_CONFIG.HEARTBEAT_TIMEOUT,
+    bufferSize: SOCKET_CONFIG.BUFFER_SIZE,
+  };
+
+  private socket: WebSocket | null = null;
+  private state: SocketState = 'idle';
+  private stateListeners = new Set<() => void>();
+  private topics = new Map<string, Set<TopicListener>>();
+  /** 연결이 끊긴 동안 보낸 메시지 (오래된 순) */
+  private buffer: string[] = [];
+  /** 연속 재연결 시도 횟수 (연결되면 0) */
+  private attempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private heartbeatTimeoutTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private constructor() {
+    // 네트워크가 돌아오면 재연결 대기 시간을 기다리지 않고 바로 연결
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => {
+        if (this.reconnectTimer) {
+          this.clearReconnectTimer();
+          this.open();
+        }
+      });
+    }
+  }
+
+  static getInstance = (): SocketClient => {
+    if (!SocketClient.instance) {
+      SocketClient.instance = new SocketClient();
+    }
+    return SocketClient.instance;
+  };
+
+  /**
+   * 설정 변경 (undefined인 값은 유지)
+   *
+   * URL이 바뀌면 기존 연결을 끊고, 사용 중이었으면 새 URL로 다시 연결
+   */
+  configure = (options: SocketOptions): void => {
+    const previousURL = this.options.url;
+    Object.entries(options).forEach(([key, value]) => {
+      if (value !== undefined) {
+        (this.options as Record<string, unknown>)[key] = value;
+      }
+    });
+
+    if (this.options.url === previousURL) {
+      return;
+    }
+
+    const wasActive = this.state !== 'idle' && this.state !== 'closed';
+    this.close();
+    this.setState('idle');
+    if (wasActive) {
+      this.connect();
+    }
+  };
+
+  /**
+   * 연결 시작 (이미 연결 중이면 무시)
+   *
+   * subscribe()/send() 시 자동으로 호출되므로 직접 호출할 일은 드묾
+   */
+  connect = (): void => {
+    if (!this.options.url || typeof WebSocket === 'undefined') {
+      return;
+    }
+    if (this.socket || this.reconnectTimer) {
+      return;
+    }
+
+    this.attempt = 0;
+    this.open();
+  };
+
+  /**
+   * 연결 종료 (재연결하지 않음, 구독 정보는 유지 → connect()로 재개)
+   *
+   * 보관 중인 메시지는 삭제 (로그아웃 후 다음 사용자의 연결로 전송되지 않도록)
+   */
+  disconnect = (): void => {
+    this.buffer = [];
+    this.close();
+    this.setState(this.options.url ? 'closed' : 'idle');
+  };
+
+  /**
+   * 현재 연결 상태 (useSyncExternalStore용)
+   */
+  getState = (): SocketState => {
+    return this.state;
+  };
+
+  /**
+   * 연결 상태 변경 구독 (useSyncExternalStore용)
+   *
+   * @returns 구독 해제 함수
+   */
+  subscribeState = (listener: () => void): (() => void) => {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  };
+
+  /**
+   * 토픽 구독
+   *
+   * @param topic - 토픽 이름 (예: 'equipment.status')
+   * @param listener - 메시지 수신 콜백
+   * @returns 구독 해제 함수 (마지막 구독자면 서버에 unsubscribe 전송)
+   */
+  subscribe = <T = unknown>(topic: string, listener: (data: T) => void): (() => void) => {
+    let listeners = this.topics.get(topic);
+    if (!listeners) {
+      listeners = new Set();
+      this.topics.set(topic, listeners);
+      // 연결 전이면 연결 시 한꺼번에 subscribe 전송
+      this.sendIfOpen(this.options.protocol.subscribe(topic));
+    }
+    listeners.add(listener as TopicListener);
+    this.connect();
+
+    return () => {
+      const current = this.topics.get(topic);
+      if (!current?.delete(listener as TopicListener) || current.size > 0) {
+        return;
+      }
+      this.topics.delete(topic);
+      this.sendIfOpen(this.options.protocol.unsubscribe(topic));
+    };
+  };
+
+  /**
+   * 토픽으로 메시지 전송 (연결이 끊겨 있으면 보관했다가 연결되면 전송)
+   */
+  send = (topic: string, data: unknown): void => {
+    const message = this.options.protocol.publish(topic, data);
+
+    if (!this.sendIfOpen(message)) {
+      this.buffer.push(message);
+      if (this.buffer.length > this.options.bufferSize) {
+        this.buffer.shift();
+        apiClient.tracer.event(null, 'WebSocket buffer full, dropped oldest message', 'warn');
+      }
+      this.connect();
+    }
+  };
+
+  /**
+   * 새 연결 생성
+   */
+  private open = (): void => {
+    this.setState(this.attempt === 0 ? 'connecting' : 'reconnecting');
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(toWebSocketURL(this.options.url));
+    } catch (error) {
+      // 잘못된 URL 등 - 재연결해도 같으므로 종료
+      apiClient.tracer.event(null, `WebSocket connection failed: ${String(error)}`, 'error');
+      this.setState('closed');
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.attempt = 0;
+      this.setState('open');
+      apiClient.tracer.event(null, `WebSocket connected: ${this.options.url}`);
+
+      // 재연결이면 구독 복구 → 끊긴 동안 보관한 메시지 전송
+      this.topics.forEach((_listeners, topic) => socket.send(this.options.protocol.subscribe(topic)));
+      this.buffer.splice(0).forEach((message) => socket.send(message));
+      this.startHeartbeat(socket);
+    };
+
+    socket.onmessage = (event: MessageEvent) => {
+      this.clearHeartbeatTimeout();
+      if (typeof event.data === 'string') {
+        this.dispatch(event.data);
+      }
+    };
+
+    // 에러 후에는 항상 close 이벤트가 오므로 재연결은 onclose에서 처리
+    socket.onclose = (event: CloseEvent) => {
+      this.drop(socket, `WebSocket closed (${event.code}${event.reason ? ` ${event.reason}` : ''})`);
+    };
+  };
+
+  /**
+   * 끊긴 연결 정리 + 재연결 예약
+   */
+  private drop = (socket: WebSocket, reason: string): void => {
+    // 이미 교체/종료된 연결의 이벤트는 무시
+    if (this.socket !== socket) {
+      return;
+    }
+
+    this.socket = null;
+    this.stopHeartbeat();
+    socket.onclose = null;
+    socket.close();
+
+    const delay = Math.min(this.options.reconnectMaxDelay, this.options.reconnectDelay * 2 ** this.attempt);
+    // 여러 탭/사용자가 동시에 재연결하지 않도록 50~100% 범위에서 무작위
+    const jittered = Math.round(delay * (0.5 + Math.random() / 2));
+    this.attempt++;
+
+    apiClient.tracer.event(null, `${reason}, reconnecting in ${jittered}ms`, 'warn');
+    this.setState('reconnecting');
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open();
+    }, jittered);
+  };
+
+  /**
+   * 연결/타이머 정리 (재연결하지 않음)
+   */
+  private close = (): void => {
+    this.clearReconnectTimer();
+    this.stopHeartbeat();
+
+    const socket = this.socket;
+    this.socket = null;
+    if (socket) {
+      socket.onclose = null;
+      socket.close(1000);
+    }
+  };
+
+  /**
+   * 수신 메시지를 토픽 구독자에게 전달
+   */
+  private dispatch = (raw: string): void => {
+    const message = this.options.protocol.decode(raw);
+    if (!message || message.pong || !message.topic) {
+      return;
+    }
+
+    this.topics.get(message.topic)?.forEach((listener) => {
+      // 한 구독자의 에러가 다른 구독자에게 영향을 주지 않도록
+      try {
+        listener(message.data);
+      } catch (error) {
+        apiClient.tracer.event(null, `WebSocket listener error (${message.topic}): ${String(error)}`, 'error');
+      }
+    });
+  };
+
+  /**
+   * 연결되어 있으면 전송
+   *
+   * @returns 전송 여부
+   */
+  private sendIfOpen = (message: string): boolean => {
+    if (this.socket?.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+    this.socket.send(message);
+    return true;
+  };
+
+  /**
+   * heartbeat 시작 (ping 후 heartbeatTimeout 동안 수신이 없으면 재연결)
+   */
+  private startHeartbeat = (socket: WebSocket): void => {
+    const { heartbeatInterval, heartbeatTimeout } = this.options;
+    if (heartbeatInterval <= 0) {
+      return;
+    }
+
+    this.heartbeatTimer = setInterval(() => {
+      socket.send(this.options.protocol.ping());
+      if (!this.heartbeatTimeoutTimer) {
+        this.heartbeatTimeoutTimer = setTimeout(() => {
+          this.heartbeatTimeoutTimer = null;
+          this.drop(socket, 'WebSocket heartbeat timeout');
+        }, heartbeatTimeout);
+      }
+    }, heartbeatInterval);
+  };
+
+  private stopHeartbeat = (): void => {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    this.clearHeartbeatTimeout();
+  };
+
+  private clearHeartbeatTimeout = (): void => {
+    if (this.heartbeatTimeoutTimer) {
+      clearTimeout(this.heartbeatTimeoutTimer);
+      this.heartbeatTimeoutTimer = null;
+    }
+  };
+
+  private clearReconnectTimer = (): void => {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  };
+
+  private setState = (state: SocketState): void => {
+    if (this.state === state) {
+      return;
+    }
+    this.state = state;
+    this.stateListeners.forEach((listener) => listener());
+  };
+}
+
+/**
+ * 싱글톤 인스턴스
+ *
+ * @example
+ * import { socketClient } from '@/lib/socket-client';
+ *
+ * socketClient.subscribe('equipment.status', console.log);
+ */
+export const socketClient = SocketClient.getInstance();
@@ -7,6 +7,8 @@
  * - 순환 참조(circular dependency) 방지
  */
 
+import type { ZodType } from 'zod';
+
 /**
  * API 응답 기본 구조
  *
@@ -21,12 +23,52 @@ export type ApiResponse<T> = {
   success: boolean;
   /** 응답 데이터 (성공 시에만 존재) */
   data?: T;
-  /** 에러 메시지 (실패 시에만 존재) */
-  error?: string;
+  /**
+   * 에러 정보 (실패 시에만 존재)
+   *
+   * 왜 문자열이 아닌 AppError인가?
+   * - 호출부가 메시지 문자열 대신 error.type으로 분기 가능
+   * - 화면에는 error.message, 폼에는 error.fieldErrors 사용
+   */
+  error?: AppError;
   /** HTTP 상태 코드 */
   statusCode: number;
   /** 서버 응답 시간 (디버깅용) */
   timestamp: string;
+  /**
+   * 요청 중단 원인 (중단된 경우에만 존재)
+   *
+   * - cancelled: 호출부가 AbortSignal로 취소 → UI에서 에러로 표시하지 않음
+   * - timeout: 타임아웃 초과 → "요청 시간이 초과되었습니다" 안내
+   */
+  abortReason?: 'cancelled' | 'timeout';
+  /**
+   * 요청 ID (X-Request-Id)
+   *
+   * 왜 필요한가?
+   * - 오류 화면에 표시하면 작업자 문의를 백엔드 로그와 바로 연결 가능
+   * - 네트워크 요청 없이 반환된 응답(캐시 등)에는 없음
+   */
+  requestId?: string;
+  /**
+   * 오프라인 큐에 보관된 경우 큐 항목 ID (Idempotency-Key)
+   *
+   * 왜 필요한가?
+   * - 실패 응답이지만 입력은 보관되었으므로 "연결되면 전송됩니다"로 안내 가능
+   * - offlineQueue.onResult의 mutation.id와 비교하여 재전송 결과를 연결
+   */
+  queuedId?: string;
+  /**
+   * 응답 헤더 (키는 소문자)
+   *
+   * 왜 Headers 객체가 아닌가?
+   * - 응답 캐시(persist)가 LocalStorage에 JSON으로 저장하므로 직렬화 가능한 객체 사용
+   *
+   * @example
+   * response.headers?.['x-total-count']; // 전체 건수
+   * response.headers?.etag;              // 버전 (If-Match에 사용)
+   */
+  headers?: Record<string, string>;
 };
 
 /**
@@ -84,6 +126,7 @@ export type ErrorType =
   | 'AUTHENTICATION_ERROR'  // 인증 실패 (로그인 필요)
   | 'AUTHORIZATION_ERROR'   // 권한 부족
   | 'NOT_FOUND_ERROR'       // 리소스를 찾을 수 없음
+  | 'CONFLICT_ERROR'        // 동시 수정 충돌 (409, 412)
   | 'NETWORK_ERROR'         // 네트워크 연결 실패
   | 'SERVER_ERROR'          // 서버 내부 오류
   | 'UNKNOWN_ERROR';        // 알 수 없는 오류
@@ -100,6 +143,13 @@ export type AppError = {
   statusCode?: number;
   /** 개발자용 상세 정보 */
   details?: unknown;
+  /**
+   * 필드별 에러 메시지 (VALIDATION_ERROR)
+   *
+   * @example
+   * { email: ['이메일 형식이 올바르지 않습니다'] }
+   */
+  fieldErrors?: Record<string, string[]>;
   /** 에러 발생 시간 */
   timestamp: string;
 };
@@ -166,6 +216,31 @@ export type FilterOperator =
   | 'in'              // 배열에 포함
   | 'notIn';          // 배열에 포함되지 않음
 
+/**
+ * 필터 조건
+ *
+ * 왜 필요한가?
+ * - 목록 검색 조건을 연산자와 함께 서버로 전달
+ * - GET 파라미터에 넣으면 백엔드 필터 형식으로 직렬화됨
+ *
+ * @example
+ * apiClient.get('/orders', {
+ *   filters: [
+ *     { field: 'status', operator: 'in', value: ['READY', 'DONE'] },
+ *     { field: 'amount', operator: 'greaterOrEqual', value: 1000 },
+ *   ],
+ * });
+ * // => /orders?filters[status][in]=READY,DONE&filters[amount][greaterOrEqual]=1000
+ */
+export type FilterCondition<T = unknown> = {
+  /** 필터 대상 필드 */
+  field: string;
+  /** 연산자 */
+  operator: FilterOperator;
+  /** 비교 값 (in, notIn은 배열) */
+  value: T | T[];
+};
+
 /**
  * 범용 선택 옵션 타입
  */
@@ -211,6 +286,89 @@ export type EnvironmentVariables = {
  */
 export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
 
+/**
+ * 응답 본문 파싱 방식
+ *
+ * - json: JSON 파싱 (기본값)
+ * - text: 문자열 (CSV, HTML 등)
+ * - blob: Blob (엑셀, PDF 등 파일 다운로드)
+ * - arrayBuffer: ArrayBuffer (바이너리 직접 처리)
+ * - stream: ReadableStream (대용량 응답을 읽으면서 처리)
+ *
+ * 왜 ResponseType이 아닌가?
+ * - DOM 전역 타입 ResponseType('basic' | 'cors' ...)과 이름 충돌 방지
+ */
+export type ApiResponseType = 'json' | 'text' | 'blob' | 'arrayBuffer' | 'stream';
+
+/**
+ * API 응답 캐시 옵션
+ *
+ * 왜 ApiSpec에 선언하는가?
+ * - 캐시 정책은 "어떤 API인가"에 따라 결정되므로 명세와 함께 관리
+ * - 호출부는 캐시를 의식하지 않고 apiClient.fetch()만 호출
+ */
+export type ApiCacheOptions = {
+  /** 캐시가 fresh로 유지되는 시간 (밀리초) */
+  ttl: number;
+  /** ttl 경과 후 캐시를 반환하면서 백그라운드에서 갱신하는 시간 (밀리초) */
+  staleWhileRevalidate?: number;
+  /** 무효화용 태그 (예: ['code-table']) */
+  tags?: string[];
+  /**
+   * LocalStorage에도 저장 (새로고침 후에도 유지)
+   *
+   * 주의: 민감한 정보가 없는 참조 데이터에만 사용
+   */
+  persist?: boolean;
+};
+
+/**
+ * API 서비스(백엔드) 이름
+ *
+ * 왜 string이 아닌 union type인가?
+ * - ApiSpec.service, apiClient.service()에서 오타를 컴파일 시점에 발견
+ * - 새 백엔드를 추가할 때 여기에 이름을 추가하고 public/config.js의 API_SERVICES에 설정
+ *
+ * - core: MES 코어 API (EnvConfig.API_BASE_URL, 기본값)
+ * - reporting: 보고서 API
+ * - files: 파일 서버
+ */
+export type ApiServiceName = 'core' | 'reporting' | 'files';
+
+/**
+ * API 서비스별 설정 (EnvConfig.API_SERVICES)
+ */
+export type ApiServiceConfig = {
+  /** 서비스 기본 URL */
+  baseURL: string;
+  /** 타임아웃 (밀리초, 기본값: API_CONFIG.TIMEOUT) */
+  timeout?: number;
+  /** 이 서비스의 모든 요청에 추가할 헤더 (예: API 버전) */
+  headers?: Record<string, string>;
+};
+
+/**
+ * GraphQL 작업 정의 (ApiSpec.graphql)
+ *
+ * 왜 ApiSpec에 담는가?
+ * - GraphQL 요청도 결국 HTTP POST/GET이므로 baseURL, 쿠키, 타임아웃, 재시도, 에러 분류를 그대로 사용
+ * - entities의 api.ts에서 REST 명세와 같은 방식(defineGraphQL)으로 선언하고 apiClient.fetch()로 실행
+ */
+export type GraphQLOperation = {
+  /** GraphQL 문서 (query/mutation) */
+  query: string;
+  /** 작업 이름 (생략 시 문서의 첫 작업 이름) */
+  operationName?: string;
+  /**
+   * Persisted Query 사용 (Apollo APQ 형식)
+   *
+   * - true: 문서의 SHA-256 해시를 계산하여 해시만 먼저 전송
+   * - string: 빌드 시 미리 계산한 해시
+   * - 서버에 등록되지 않은 해시면 문서와 함께 한 번 더 전송 (등록)
+   */
+  persisted?: boolean | string;
+};
+
 /**
  * API 명세 타입
  *
@@ -243,4 +401,26 @@ export type ApiSpec<TData = any, TResponse = any> = {
   data?: TData;
   /** 응답 데이터 변환 함수 (선택사항) */
   transform?: (data: TResponse) => TResponse;
+  /** 응답 캐시 설정 (GET에서만 사용) */
+  cache?: ApiCacheOptions;
+  /** 요청 성공 시 무효화할 캐시 태그 (POST, PUT, PATCH, DELETE에서 사용) */
+  invalidates?: string[];
+  /** 응답 본문 파싱 방식 (기본값: 'json') */
+  responseType?: ApiResponseType;
+  /**
+   * 응답 데이터 검증 스키마 (zod)
+   *
+   * - apiClient.fetch()의 반환 타입이 스키마에서 추론됨 (제네릭 생략 가능)
+   * - 개발: 불일치 시 VALIDATION_ERROR 실패 응답 / 운영: 경고만 출력
+   * - transform보다 먼저 실행 (서버 원본 형식을 검증)
+   */
+  schema?: ZodType<TResponse>;
+  /** 요청을 보낼 서비스 (기본값: 'core') */
+  service?: ApiServiceName;
+  /**
+   * GraphQL 작업 (지정하면 data는 variables, url은 GraphQL 엔드포인트)
+   *
+   * 응답의 data 필드만 꺼내서 반환하고, errors가 있으면 실패 응답으로 변환
+   */
+  graphql?: GraphQLOperation;
 };